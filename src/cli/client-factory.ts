@@ -6,8 +6,12 @@ interface PrismaPackageJson {
   version: string;
 }
 
+interface PrismaClientOptions {
+  datasourceUrl?: string;
+}
+
 interface PrismaClientModule {
-  PrismaClient: new () => PrismaClient;
+  PrismaClient: new (options?: PrismaClientOptions) => PrismaClient;
 }
 
 function getPrismaMajorVersion(): number {
@@ -27,13 +31,19 @@ function assertDefaultClientSupported(majorVersion: number): void {
   );
 }
 
+export function supportsDefaultClient(): boolean {
+  return getPrismaMajorVersion() < 7;
+}
+
 export async function createPrismaClient(
   factory?: PrismaClientFactory,
+  datasourceUrl?: string,
 ): Promise<PrismaClient> {
   if (factory) return factory();
   const majorVersion = getPrismaMajorVersion();
   assertDefaultClientSupported(majorVersion);
   const clientModule =
     (await import("@prisma/client")) as unknown as PrismaClientModule;
-  return new clientModule.PrismaClient();
+  if (!datasourceUrl) return new clientModule.PrismaClient();
+  return new clientModule.PrismaClient({ datasourceUrl });
 }
@@ -0,0 +1,86 @@
+import type { DatabaseProvider } from "../../../migrations";
+import {
+  MigrationRepository,
+  type DiscoveredMigration,
+} from "../../../migrations/discovery";
+import { isIrreversibleMigration } from "../../../migrations/sql";
+import { colors, formatMigration } from "../../../utils";
+import {
+  hasRollbackSql,
+  writeGeneratedDown,
+  type GenerateDownConfig,
+} from "../generate-down";
+
+export interface ManualRollback {
+  migration: string;
+  statements: string[];
+}
+
+export interface BackfillResult {
+  written: string[];
+  manual: ManualRollback[];
+}
+
+async function needsBackfill(migration: DiscoveredMigration): Promise<boolean> {
+  if (migration.format !== "prisma") return false;
+  const hasRollback = await hasRollbackSql(migration);
+  if (hasRollback) return false;
+  const isIrreversible = await isIrreversibleMigration(migration);
+  return !isIrreversible;
+}
+
+export async function backfillMigrations(
+  migrations: DiscoveredMigration[],
+  provider?: DatabaseProvider,
+): Promise<BackfillResult> {
+  const result: BackfillResult = { written: [], manual: [] };
+  await migrations.reduce(async (previous, migration) => {
+    await previous;
+    const shouldBackfill = await needsBackfill(migration);
+    if (!shouldBackfill) return;
+    const inverted = await writeGeneratedDown(migration, provider);
+    const migrationName = formatMigration(migration);
+    result.written.push(migrationName);
+    if (inverted.irreversible.length === 0) return;
+    result.manual.push({
+      migration: migrationName,
+      statements: inverted.irreversible,
+    });
+  }, Promise.resolve());
+  return result;
+}
+
+function showManualRollbacks(manual: ManualRollback[]): void {
+  if (manual.length === 0) return;
+  console.log(
+    colors.yellow(`\n${manual.length} migration(s) need manual attention:`),
+  );
+  manual.forEach((entry) => {
+    console.log(`  ${entry.migration}`);
+    entry.statements.forEach((statement) => {
+      console.log(colors.gray(`    ${statement}`));
+    });
+  });
+}
+
+export async function backfillDown(
+  config: GenerateDownConfig = {},
+): Promise<number> {
+  const migrationsDir = config.migrationsDir ?? "./prisma/migrations";
+  const repository = new MigrationRepository(migrationsDir, config.layout);
+  const migrations = await repository.all();
+  const result = await backfillMigrations(migrations, config.provider);
+
+  if (result.written.length === 0) {
+    console.log(colors.green("Every migration already has rollback SQL"));
+    return 0;
+  }
+
+  console.log(
+    colors.green(
+      `[x] Wrote down.sql for ${result.written.length} migration(s)`,
+    ),
+  );
+  showManualRollbacks(result.manual);
+  return 0;
+}
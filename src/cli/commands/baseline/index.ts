@@ -0,0 +1,30 @@
+import { Migrations } from "../../../migrations";
+import type { MigrationsOptions } from "../../../migrations";
+import type { PrismaClient } from "../../../types";
+import { colors } from "../../../utils/colors";
+
+export const baseline = async (
+  prisma: PrismaClient,
+  migrationId: string | undefined,
+  options: MigrationsOptions = {},
+): Promise<number> => {
+  if (!migrationId) {
+    console.error(colors.red("Usage: prisma-migrations baseline <migration>"));
+    return 1;
+  }
+
+  const migrations = new Migrations(prisma, options);
+  const count = await migrations.baseline(migrationId);
+
+  if (count === 0) {
+    console.log(colors.yellow(`Already baselined up to ${migrationId}`));
+    return 0;
+  }
+
+  console.log(
+    colors.green(
+      `[x] Marked ${count} migration(s) as applied up to ${migrationId}`,
+    ),
+  );
+  return 0;
+};
@@ -0,0 +1,135 @@
+import { copyFile, mkdir, rm } from "fs/promises";
+import { basename, join } from "path";
+import {
+  MigrationRepository,
+  type DiscoveredMigration,
+} from "../../../migrations/discovery";
+import { colors, formatMigration, pathExists } from "../../../utils";
+
+export interface ConvertConfig {
+  migrationsDir?: string;
+}
+
+export interface ConvertedMigration {
+  from: string;
+  to: string;
+}
+
+interface ConversionPlan {
+  migration: DiscoveredMigration;
+  directoryName: string;
+}
+
+type ConvertResult = Promise<ConvertedMigration[]>;
+
+function planConversion(migrations: DiscoveredMigration[]): ConversionPlan[] {
+  return migrations.map((migration) => {
+    return { migration, directoryName: formatMigration(migration) };
+  });
+}
+
+async function assertTargetsAvailable(
+  migrationsDir: string,
+  plans: ConversionPlan[],
+): Promise<void> {
+  const existing = await Promise.all(
+    plans.map((plan) => pathExists(join(migrationsDir, plan.directoryName))),
+  );
+  const conflict = plans.find((_, index) => existing[index]);
+  if (!conflict) return;
+  throw new Error(
+    `Cannot convert: ${conflict.directoryName} already exists in ${migrationsDir}`,
+  );
+}
+
+async function copyMigration(
+  migrationsDir: string,
+  plan: ConversionPlan,
+): Promise<void> {
+  const { migration, directoryName } = plan;
+  const directory = join(migrationsDir, directoryName);
+  await mkdir(directory);
+  await copyFile(migration.path, join(directory, "migration.sql"));
+  if (!migration.downPath) return;
+  await copyFile(migration.downPath, join(directory, "down.sql"));
+}
+
+async function copyMigrations(
+  migrationsDir: string,
+  plans: ConversionPlan[],
+): Promise<void> {
+  try {
+    await plans.reduce(async (previous, plan) => {
+      await previous;
+      await copyMigration(migrationsDir, plan);
+    }, Promise.resolve());
+  } catch (error) {
+    await Promise.all(
+      plans.map((plan) => {
+        const directory = join(migrationsDir, plan.directoryName);
+        return rm(directory, { recursive: true, force: true });
+      }),
+    );
+    throw error;
+  }
+}
+
+async function removeSources(plans: ConversionPlan[]): Promise<void> {
+  await Promise.all(
+    plans.flatMap(({ migration }) => {
+      const paths = [migration.path, migration.downPath];
+      return paths.filter((path) => path !== undefined).map((path) => rm(path));
+    }),
+  );
+}
+
+export async function convertFlywayMigrations(
+  migrationsDir: string,
+): ConvertResult {
+  const repository = new MigrationRepository(migrationsDir, "flyway");
+  const plans = planConversion(await repository.all());
+  await assertTargetsAvailable(migrationsDir, plans);
+  await copyMigrations(migrationsDir, plans);
+  await removeSources(plans);
+  return plans.map((plan) => ({
+    from: basename(plan.migration.path),
+    to: plan.directoryName,
+  }));
+}
+
+export async function convert(
+  from: unknown,
+  config: ConvertConfig = {},
+  directory?: string,
+): Promise<number> {
+  if (from !== "flyway") {
+    console.error(
+      colors.red("Usage: prisma-migrations convert --from flyway [directory]"),
+    );
+    return 1;
+  }
+
+  const migrationsDir =
+    directory ?? config.migrationsDir ?? "./prisma/migrations";
+  const converted = await convertFlywayMigrations(migrationsDir);
+
+  if (converted.length === 0) {
+    console.log(
+      colors.yellow(`No Flyway migrations found in ${migrationsDir}`),
+    );
+    return 0;
+  }
+
+  console.log(
+    colors.green(`[x] Converted ${converted.length} Flyway migration(s)`),
+  );
+  converted.forEach((entry) => {
+    console.log(colors.gray(`    ${entry.from} -> ${entry.to}`));
+  });
+  console.log(
+    colors.gray(
+      'Remove layout: "flyway" from the config; existing history rows still match the converted migrations',
+    ),
+  );
+  return 0;
+}
@@ -1,5 +1,7 @@
-import { writeFile, mkdir } from "fs/promises";
+import { readFile, writeFile, mkdir } from "fs/promises";
 import { resolve } from "path";
+import type { DatabaseProvider, MigrationLayout } from "../../../migrations";
+import { invertMigrationSql } from "../../../migrations/inverse";
 import { Prompt } from "../../../utils/prompts";
 import {
   generateMigrationId,
@@ -8,10 +10,81 @@ import {
   colors,
 } from "../../../utils";
 
+export interface CreateOptions {
+  from?: string;
+  autoDown?: boolean;
+}
+
+interface CreateConfig {
+  migrationsDir?: string;
+  provider?: DatabaseProvider;
+  layout?: MigrationLayout;
+}
+
+interface MigrationPaths {
+  directory: string;
+  migration: string;
+  rollback: string;
+}
+
+const MIGRATION_TEMPLATE = `-- Add your forward migration SQL here
+-- This will be executed when running: prisma-migrations up
+
+`;
+
+const ROLLBACK_TEMPLATE = `-- Add your rollback migration SQL here
+-- This will be executed when running: prisma-migrations down
+
+`;
+
+async function readForwardSql(from: string | undefined): Promise<string> {
+  if (!from) return MIGRATION_TEMPLATE;
+  return readFile(resolve(process.cwd(), from), "utf-8");
+}
+
+function buildRollbackSql(
+  forwardSql: string,
+  options: CreateOptions,
+  provider?: DatabaseProvider,
+): string {
+  if (!options.autoDown) return ROLLBACK_TEMPLATE;
+  return invertMigrationSql(forwardSql, provider).sql;
+}
+
+type PathResolver = (
+  migrationsDir: string,
+  id: string,
+  name: string,
+) => MigrationPaths;
+
+const PATH_RESOLVERS: Record<MigrationLayout, PathResolver> = {
+  prisma: (migrationsDir, id, name) => {
+    const directory = resolve(migrationsDir, `${id}_${name}`);
+    const migration = resolve(directory, "migration.sql");
+    const rollback = resolve(directory, "down.sql");
+    return { directory, migration, rollback };
+  },
+  "golang-migrate": (migrationsDir, id, name) => {
+    const migration = resolve(migrationsDir, `${id}_${name}.up.sql`);
+    const rollback = resolve(migrationsDir, `${id}_${name}.down.sql`);
+    return { directory: migrationsDir, migration, rollback };
+  },
+  flyway: (migrationsDir, id, name) => {
+    const migration = resolve(migrationsDir, `V${id}__${name}.sql`);
+    const rollback = resolve(migrationsDir, `U${id}__${name}.sql`);
+    return { directory: migrationsDir, migration, rollback };
+  },
+};
+
 export async function create(
   name?: string,
-  config?: { migrationsDir?: string },
+  config?: CreateConfig,
+  options: CreateOptions = {},
 ) {
+  if (options.autoDown && !options.from) {
+    throw new Error("--auto-down requires --from <file> with the forward SQL");
+  }
+
   let migrationName = name;
 
   if (!migrationName) {
@@ -44,29 +117,25 @@ export async function create(
     await mkdir(migrationsDir, { recursive: true });
 
     const timestamp = generateMigrationId();
-    const migrationDir = resolve(
-      migrationsDir,
-      `${timestamp}_${migrationName}`,
-    );
+    const resolvePaths = PATH_RESOLVERS[config?.layout ?? "prisma"];
+    const paths = resolvePaths(migrationsDir, timestamp, migrationName);
 
-    await mkdir(migrationDir, { recursive: true });
+    await mkdir(paths.directory, { recursive: true });
 
-    const migrationContent = `-- Add your forward migration SQL here
--- This will be executed when running: prisma-migrations up
-
-`;
-    const rollbackContent = `-- Add your rollback migration SQL here
--- This will be executed when running: prisma-migrations down
-
-`;
+    const migrationContent = await readForwardSql(options.from);
+    const rollbackContent = buildRollbackSql(
+      migrationContent,
+      options,
+      config?.provider,
+    );
 
-    await writeFile(resolve(migrationDir, "migration.sql"), migrationContent);
-    await writeFile(resolve(migrationDir, "down.sql"), rollbackContent);
+    await writeFile(paths.migration, migrationContent);
+    await writeFile(paths.rollback, rollbackContent);
 
     spin.succeed("Migration created");
 
     console.log(colors.cyan(`\n${timestamp}_${migrationName}`));
-    console.log(colors.gray(`Location: ${migrationDir}`));
+    console.log(colors.gray(`Location: ${paths.directory}`));
   } catch (error) {
     spin.fail("Failed to create migration");
     throw error;
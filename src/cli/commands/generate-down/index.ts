@@ -0,0 +1,106 @@
+import { readFile, writeFile } from "fs/promises";
+import { dirname, join } from "path";
+import { createMigrationNotFoundError } from "../../../errors";
+import type { DatabaseProvider } from "../../../migrations";
+import {
+  MigrationRepository,
+  type DiscoveredMigration,
+  type MigrationLayout,
+} from "../../../migrations/discovery";
+import {
+  invertMigrationSql,
+  type InvertedMigration,
+} from "../../../migrations/inverse";
+import {
+  hasExecutableSql,
+  isIrreversibleMigration,
+} from "../../../migrations/sql";
+import { colors, formatMigration } from "../../../utils";
+
+export interface GenerateDownConfig {
+  migrationsDir?: string;
+  layout?: MigrationLayout;
+  provider?: DatabaseProvider;
+}
+
+export async function hasRollbackSql(
+  migration: DiscoveredMigration,
+): Promise<boolean> {
+  if (!migration.downPath) return false;
+  const sql = await readFile(migration.downPath, "utf-8");
+  return hasExecutableSql(sql);
+}
+
+export async function writeGeneratedDown(
+  migration: DiscoveredMigration,
+  provider?: DatabaseProvider,
+): Promise<InvertedMigration> {
+  const sql = await readFile(migration.path, "utf-8");
+  const inverted = invertMigrationSql(sql, provider);
+  const downPath =
+    migration.rollbackPath ?? join(dirname(migration.path), "down.sql");
+  await writeFile(downPath, inverted.sql);
+  return inverted;
+}
+
+function assertSqlMigration(migration: DiscoveredMigration): void {
+  if (migration.format === "prisma") return;
+  const migrationName = formatMigration(migration);
+  throw new Error(
+    `Cannot generate down.sql for ${migrationName}: only migration.sql files without Up/Down markers are supported`,
+  );
+}
+
+export function showIrreversible(irreversible: string[]): void {
+  if (irreversible.length === 0) return;
+  console.log(
+    colors.yellow(
+      `\n${irreversible.length} statement(s) need a manual rollback:`,
+    ),
+  );
+  irreversible.forEach((statement) => {
+    console.log(colors.gray(`  ${statement}`));
+  });
+}
+
+export async function generateDown(
+  migrationId: string | undefined,
+  config: GenerateDownConfig = {},
+  force = false,
+): Promise<number> {
+  if (!migrationId) {
+    console.error(colors.red("Usage: prisma-migrations generate-down <id>"));
+    return 1;
+  }
+
+  const migrationsDir = config.migrationsDir ?? "./prisma/migrations";
+  const repository = new MigrationRepository(migrationsDir, config.layout);
+  const migration = await repository.find(migrationId);
+  if (!migration) throw createMigrationNotFoundError(migrationId);
+  assertSqlMigration(migration);
+
+  const hasRollback = await hasRollbackSql(migration);
+  if (hasRollback && !force) {
+    const migrationName = formatMigration(migration);
+    console.error(
+      colors.red(`${migrationName} already has rollback SQL in down.sql`),
+    );
+    console.error(colors.cyan("Pass --force to overwrite it"));
+    return 1;
+  }
+
+  const isIrreversible = await isIrreversibleMigration(migration);
+  if (isIrreversible && !force) {
+    const migrationName = formatMigration(migration);
+    console.error(colors.red(`${migrationName} is marked irreversible`));
+    console.error(colors.cyan("Pass --force to write down.sql anyway"));
+    return 1;
+  }
+
+  const inverted = await writeGeneratedDown(migration, config.provider);
+  console.log(
+    colors.green(`[x] Wrote down.sql for ${formatMigration(migration)}`),
+  );
+  showIrreversible(inverted.irreversible);
+  return 0;
+}
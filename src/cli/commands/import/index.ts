@@ -0,0 +1,47 @@
+import { Migrations } from "../../../migrations";
+import type { ImportOptions, MigrationsOptions } from "../../../migrations";
+import { isImportSource } from "../../../migrations/import";
+import type { PrismaClient } from "../../../types";
+import { formatMigration } from "../../../utils";
+import { colors } from "../../../utils/colors";
+
+export const importMigrations = async (
+  prisma: PrismaClient,
+  from: unknown,
+  importOptions: ImportOptions = {},
+  options: MigrationsOptions = {},
+): Promise<number> => {
+  if (!isImportSource(from)) {
+    console.error(
+      colors.red(
+        "Usage: prisma-migrations import --from <knex|typeorm|sequelize> [--dir <path>] [--table <name>]",
+      ),
+    );
+    return 1;
+  }
+
+  const migrations = new Migrations(prisma, options);
+  const imported = await migrations.importFrom(from, importOptions);
+
+  if (imported.length === 0) {
+    console.log(colors.yellow(`No ${from} migrations found`));
+    return 0;
+  }
+
+  const applied = imported.filter((migration) => migration.applied);
+  const pending = imported.filter((migration) => !migration.applied);
+  console.log(
+    colors.green(
+      `[x] Imported ${imported.length} ${from} migration(s); ${applied.length} recorded as applied`,
+    ),
+  );
+  if (pending.length === 0) return 0;
+
+  console.log(
+    colors.yellow(`\n${pending.length} migration(s) must be ported to SQL:`),
+  );
+  pending.forEach((migration) => {
+    console.log(colors.gray(`  - ${formatMigration(migration)}`));
+  });
+  return 0;
+};
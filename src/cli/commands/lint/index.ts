@@ -0,0 +1,42 @@
+import { Migrations } from "../../../migrations";
+import type { LintIssue, MigrationsOptions } from "../../../migrations";
+import type { PrismaClient } from "../../../types";
+import { colors } from "../../../utils/colors";
+
+function formatSeverity(issue: LintIssue): string {
+  if (issue.severity === "error") return colors.red("error");
+  return colors.yellow("warn ");
+}
+
+export function showLintIssues(issues: LintIssue[]): void {
+  issues.forEach((issue) => {
+    const hasStatement = issue.statementNumber !== undefined;
+    const location = hasStatement
+      ? `${issue.migration}:${issue.statementNumber}`
+      : issue.migration;
+    const detail = hasStatement ? `${issue.statement} ` : "";
+    console.log(`  ${formatSeverity(issue)} ${location} ${issue.message}`);
+    console.log(colors.gray(`        ${detail}(${issue.rule})`));
+  });
+}
+
+export const lint = async (
+  prisma: PrismaClient,
+  options: MigrationsOptions = {},
+): Promise<number> => {
+  const migrations = new Migrations(prisma, options);
+  const issues = await migrations.lint();
+
+  if (issues.length === 0) {
+    console.log(colors.green("[x] No issues found in pending migrations"));
+    return 0;
+  }
+
+  showLintIssues(issues);
+  const errorCount = issues.filter((issue) => {
+    return issue.severity === "error";
+  }).length;
+  const warningCount = issues.length - errorCount;
+  console.log(`\n${errorCount} error(s), ${warningCount} warning(s)`);
+  return errorCount > 0 ? 1 : 0;
+};
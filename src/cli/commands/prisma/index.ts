@@ -105,18 +105,6 @@ export async function deploy(migrationsDir?: string): VoidResult {
   await execPrismaCommand("migrate", ["deploy"]);
 }
 
-export async function resolveMigration(options: {
-  applied?: string;
-  rolledBack?: string;
-}): VoidResult {
-  const args = ["resolve"];
-  if (options.applied) args.push("--applied", options.applied);
-  if (options.rolledBack) args.push("--rolled-back", options.rolledBack);
-  await execPrismaCommand("migrate", args);
-}
-
-export { resolveMigration as resolve };
-
 export async function dbPush(
   options: { skipGenerate?: boolean } = {},
 ): VoidResult {
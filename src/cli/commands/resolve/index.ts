@@ -0,0 +1,136 @@
+import { Migrations } from "../../../migrations";
+import type { FailedMigration, MigrationsOptions } from "../../../migrations";
+import type { PrismaClient } from "../../../types";
+import { formatMigration } from "../../../utils";
+import { colors } from "../../../utils/colors";
+import { Prompt, type PromptChoice } from "../../../utils/prompts";
+
+export interface ResolveOptions {
+  applied?: string;
+  rolledBack?: string;
+  retry?: string;
+}
+
+export interface ResolveDependencies {
+  getMigrationId: (choices: PromptChoice[]) => Promise<string>;
+  getAction: (migrationName: string) => Promise<string>;
+}
+
+type ResolveAction = (migrations: Migrations, id: string) => Promise<void>;
+
+const RESOLVE_ACTIONS: Record<string, ResolveAction> = {
+  applied: (migrations, id) => migrations.markApplied(id),
+  "rolled-back": (migrations, id) => migrations.markRolledBack(id),
+  retry: (migrations, id) => migrations.retryFailed(id),
+};
+
+const ACTION_MESSAGES: Record<string, string> = {
+  applied: "Marked as applied",
+  "rolled-back": "Marked as rolled back",
+  retry: "Retried successfully",
+};
+
+export function createDefaultDependencies(): ResolveDependencies {
+  return {
+    getMigrationId: async (choices: PromptChoice[]) => {
+      const prompt = new Prompt();
+      const migrationId = await prompt.list("Which migration?", choices);
+      prompt.close();
+      return migrationId;
+    },
+    getAction: async (migrationName: string) => {
+      const choices: PromptChoice[] = [
+        { name: colors.cyan("Retry the migration"), value: "retry" },
+        {
+          name: colors.yellow("Mark as rolled back (changes were undone)"),
+          value: "rolled-back",
+        },
+        {
+          name: colors.green("Mark as applied (changes were completed)"),
+          value: "applied",
+        },
+        { name: colors.gray("Cancel"), value: "cancel" },
+      ];
+      const prompt = new Prompt();
+      const action = await prompt.list(
+        `How should ${migrationName} be resolved?`,
+        choices,
+      );
+      prompt.close();
+      return action;
+    },
+  };
+}
+
+export function showFailedMigrations(failed: FailedMigration[]): void {
+  failed.forEach((entry) => {
+    const steps = `${entry.appliedStepsCount} step(s) applied`;
+    const details = entry.missing ? `${steps}, file missing` : steps;
+    console.log(
+      `  ${colors.red("[!]")} ${formatMigration(entry.migration)} ${colors.gray(`(${details})`)}`,
+    );
+    const logs = entry.logs ?? "No logs recorded";
+    logs.split("\n").forEach((line) => {
+      console.log(colors.gray(`        ${line}`));
+    });
+  });
+}
+
+export async function runResolveAction(
+  migrations: Migrations,
+  action: string,
+  migrationId: string,
+): Promise<number> {
+  const run = RESOLVE_ACTIONS[action];
+  if (!run) {
+    console.log(colors.yellow("Cancelled"));
+    return 0;
+  }
+  await run(migrations, migrationId);
+  console.log(colors.green(`[x] ${ACTION_MESSAGES[action]}: ${migrationId}`));
+  return 0;
+}
+
+function selectAction(options: ResolveOptions): [string, string] | null {
+  if (options.applied) return ["applied", options.applied];
+  if (options.rolledBack) return ["rolled-back", options.rolledBack];
+  if (options.retry) return ["retry", options.retry];
+  return null;
+}
+
+export async function interactiveResolve(
+  migrations: Migrations,
+  deps: ResolveDependencies = createDefaultDependencies(),
+): Promise<number> {
+  const failed = await migrations.failed();
+
+  if (failed.length === 0) {
+    console.log(colors.green("[x] No failed migrations"));
+    return 0;
+  }
+
+  showFailedMigrations(failed);
+  const choices = failed.map((entry) => {
+    const name = formatMigration(entry.migration);
+    return { name, value: entry.migration.id };
+  });
+  const migrationId =
+    choices.length === 1
+      ? choices[0].value
+      : await deps.getMigrationId(choices);
+  const action = await deps.getAction(migrationId);
+  return runResolveAction(migrations, action, migrationId);
+}
+
+export const resolve = async (
+  prisma: PrismaClient,
+  options: ResolveOptions,
+  config: MigrationsOptions = {},
+  deps: ResolveDependencies = createDefaultDependencies(),
+): Promise<number> => {
+  const migrations = new Migrations(prisma, config);
+  const selected = selectAction(options);
+  if (!selected) return interactiveResolve(migrations, deps);
+  const [action, migrationId] = selected;
+  return runResolveAction(migrations, action, migrationId);
+};
@@ -0,0 +1,28 @@
+import { Migrations } from "../../../migrations";
+import type { MigrationsOptions } from "../../../migrations";
+import type { PrismaClient } from "../../../types";
+import { colors } from "../../../utils/colors";
+
+export const squash = async (
+  prisma: PrismaClient,
+  migrationId: string | undefined,
+  options: MigrationsOptions = {},
+): Promise<number> => {
+  if (!migrationId) {
+    console.error(
+      colors.red("Usage: prisma-migrations squash --to <migration>"),
+    );
+    return 1;
+  }
+
+  const migrations = new Migrations(prisma, options);
+  const result = await migrations.squash(migrationId);
+
+  console.log(
+    colors.green(
+      `[x] Squashed ${result.count} migration(s) into ${result.directoryName}`,
+    ),
+  );
+  console.log(colors.gray("Original migrations were moved to _archive"));
+  return 0;
+};
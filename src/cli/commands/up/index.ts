@@ -1,9 +1,9 @@
 import type { PrismaClient, MigrationFile } from "../../../types";
 import { Migrations } from "../../../migrations";
-import type { MigrationsOptions } from "../../../migrations";
+import type { MigrationProgress, MigrationsOptions } from "../../../migrations";
 import { logger } from "../../../logger";
 import { Prompt, type PromptChoice } from "../../../utils/prompts";
-import { spinner, createTable, colors } from "../../../utils";
+import { spinner, createTable, colors, formatMigration } from "../../../utils";
 
 export interface UpDependencies {
   getSteps: (maxSteps: number) => Promise<number>;
@@ -60,19 +60,29 @@ export function createDefaultDependencies(): UpDependencies {
   };
 }
 
+export function formatProgress(progress: MigrationProgress): string {
+  const migrationName = formatMigration(progress.migration);
+  const position = `${progress.statement}/${progress.statementCount}`;
+  return `Running ${migrationName} (statement ${position})`;
+}
+
 export async function up(
   prisma: PrismaClient,
   steps?: number,
   config?: MigrationsOptions,
   interactive?: boolean,
 ) {
-  const migrations = new Migrations(prisma, config);
-
   if (interactive) {
-    return await interactiveUp(migrations);
+    return await interactiveUp(new Migrations(prisma, config));
   }
 
   const spin = spinner("Loading migrations...").start();
+  const migrations = new Migrations(prisma, {
+    ...config,
+    onProgress: (progress) => {
+      spin.text = formatProgress(progress);
+    },
+  });
 
   try {
     spin.text = "Running migrations...";
@@ -0,0 +1,58 @@
+import { Migrations } from "../../../migrations";
+import type {
+  MigrationsOptions,
+  RollbackVerification,
+} from "../../../migrations";
+import type { PrismaClient } from "../../../types";
+import { formatMigration } from "../../../utils";
+import { colors } from "../../../utils/colors";
+
+export function showVerifications(results: RollbackVerification[]): void {
+  results.forEach((result) => {
+    const name = formatMigration(result.migration);
+    if (result.restored) {
+      console.log(`  ${colors.green("[x]")} ${name}`);
+      return;
+    }
+    console.log(`  ${colors.red("[!]")} ${name}`);
+    result.differences.forEach((difference) => {
+      console.log(colors.gray(`        ${difference}`));
+    });
+  });
+}
+
+export const verifyRollback = async (
+  prisma: PrismaClient,
+  scratch: PrismaClient,
+  verifyAll: boolean,
+  options: MigrationsOptions = {},
+): Promise<number> => {
+  const pending = verifyAll
+    ? undefined
+    : await new Migrations(prisma, options).pending();
+  const ids = pending?.map((migration) => migration.id);
+
+  if (ids?.length === 0) {
+    console.log(colors.green("[x] No pending migrations to verify"));
+    return 0;
+  }
+
+  const migrations = new Migrations(scratch, options);
+  const results = await migrations.verifyRollback(ids);
+  showVerifications(results);
+
+  const failedCount = results.filter((result) => !result.restored).length;
+  if (failedCount > 0) {
+    console.log(
+      colors.red(
+        `\n${failedCount} of ${results.length} migration(s) did not roll back cleanly`,
+      ),
+    );
+    return 1;
+  }
+
+  console.log(
+    colors.green(`\n[x] ${results.length} migration(s) rolled back cleanly`),
+  );
+  return 0;
+};
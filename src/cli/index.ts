@@ -1,3 +1,6 @@
+import { mkdtemp, rm } from "fs/promises";
+import { tmpdir } from "os";
+import { join } from "path";
 import { up } from "./commands/up";
 import { down } from "./commands/down";
 import { init } from "./commands/init";
@@ -7,13 +10,30 @@ import { setupSource } from "./commands/setup/source";
 import { linkTypes } from "./commands/setup/link-types";
 import { validate } from "./commands/setup/validate";
 import { checkLock, releaseLock } from "./commands/lock";
+import { baseline } from "./commands/baseline";
+import { squash } from "./commands/squash";
+import { generateDown } from "./commands/generate-down";
+import { backfillDown } from "./commands/backfill-down";
+import { convert } from "./commands/convert";
+import { importMigrations } from "./commands/import";
+import { lint } from "./commands/lint";
+import { verifyRollback } from "./commands/verify-rollback";
+import { resolve } from "./commands/resolve";
 import { loadConfig } from "../config";
 import type { MigrationsConfig } from "../config";
-import { Migrations } from "../migrations";
-import { createPrismaClient } from "./client-factory";
+import { Migrations, type FailureMode, type TagFilter } from "../migrations";
+import { detectProvider } from "../migrations/dialect";
+import { readTagList } from "../migrations/selection";
+import { createPrismaClient, supportsDefaultClient } from "./client-factory";
 import { setLogLevel } from "../logger";
-import type { MigrationFile, MigrationStatus, PrismaClient } from "../types";
+import type {
+  MigrationFile,
+  MigrationPhase,
+  MigrationStatus,
+  PrismaClient,
+} from "../types";
 import { MigrationError } from "../errors";
+import { formatMigration } from "../utils";
 import { colors } from "../utils/colors";
 import { Prompt } from "../utils/prompts";
 import { PROMPTS, MESSAGES } from "./constants";
@@ -34,6 +54,33 @@ function handleError(error: unknown) {
   process.exit(1);
 }
 
+function parseFailureMode(
+  value: unknown,
+  defaultValue?: FailureMode,
+): FailureMode | undefined {
+  if (value === undefined) return defaultValue;
+  if (value === "stop" || value === "rollback-batch") return value;
+  throw new Error('--on-failure must be "stop" or "rollback-batch"');
+}
+
+function parsePhase(value: unknown): MigrationPhase | undefined {
+  if (value === undefined) return undefined;
+  if (value === "pre" || value === "post") return value;
+  throw new Error('--phase must be "pre" or "post"');
+}
+
+function parseTagFilter(
+  options: Record<string, unknown>,
+): TagFilter | undefined {
+  const include = readTagList(options.tag, "--tag needs a tag name");
+  const exclude = readTagList(
+    options.excludeTag,
+    "--exclude-tag needs a tag name",
+  );
+  if (!include && !exclude) return undefined;
+  return { include, exclude };
+}
+
 function parseStepsOption(value: unknown, defaultValue?: number) {
   if (value === undefined) return defaultValue;
 
@@ -49,16 +96,93 @@ function parseStepsOption(value: unknown, defaultValue?: number) {
   return steps;
 }
 
+function showRepeatableStatus(status: MigrationStatus): void {
+  const migrationName = formatMigration(status.migration);
+  if (!status.changed) {
+    const label = colors.gray("(up to date)");
+    console.log(`  ${colors.green("[x]")} ${migrationName} ${label}`);
+    return;
+  }
+  const label = colors.yellow("(changed)");
+  console.log(`  ${colors.yellow("[~]")} ${migrationName} ${label}`);
+}
+
+function showSkippedMigrations(skipped: MigrationFile[]): void {
+  if (skipped.length === 0) return;
+  console.log(
+    colors.gray(
+      `\n${skipped.length} skipped migration(s) (condition.sql returned false):\n`,
+    ),
+  );
+  skipped.forEach((migration) => {
+    console.log(colors.gray(`  ${formatMigration(migration)}`));
+  });
+  console.log(
+    colors.gray(
+      "\nRe-evaluate them with: prisma-migrations up --recheck-skipped",
+    ),
+  );
+}
+
+function isOutstandingPostDeploy(status: MigrationStatus): boolean {
+  const isPending = !status.applied && !status.excluded;
+  return isPending && status.phase === "post";
+}
+
+function showOutstandingPostDeploy(statuses: MigrationStatus[]): void {
+  const outstanding = statuses.filter(isOutstandingPostDeploy).length;
+  if (outstanding === 0) return;
+  console.log(
+    colors.yellow(
+      `\n${outstanding} post-deploy migration(s) outstanding. Run after the new code is live: prisma-migrations up --phase post`,
+    ),
+  );
+}
+
 function showMigrationStatuses(statuses: MigrationStatus[]): void {
   if (statuses.length === 0) {
     console.log(colors.yellow("No migrations found"));
     return;
   }
   statuses.forEach((status) => {
-    const marker = status.applied ? colors.green("[x]") : "[ ]";
     const migration = status.migration;
-    console.log(`  ${marker} ${migration.id}_${migration.name}`);
+    if (status.excluded) {
+      const label = colors.gray("(excluded)");
+      console.log(
+        `  ${colors.gray("[-]")} ${formatMigration(migration)} ${label}`,
+      );
+      return;
+    }
+    if (status.failed) {
+      const label = colors.red("(failed)");
+      console.log(
+        `  ${colors.red("[!]")} ${formatMigration(migration)} ${label}`,
+      );
+      return;
+    }
+    if (status.skipped) {
+      const label = colors.gray("(skipped: condition false)");
+      console.log(
+        `  ${colors.gray("[s]")} ${formatMigration(migration)} ${label}`,
+      );
+      return;
+    }
+    if (status.changed !== undefined) {
+      showRepeatableStatus(status);
+      return;
+    }
+    const marker = status.applied ? colors.green("[x]") : "[ ]";
+    const labels = [
+      status.irreversible ? colors.gray("(irreversible)") : "",
+      isOutstandingPostDeploy(status) ? colors.yellow("(post-deploy)") : "",
+    ];
+    const label = labels
+      .filter(Boolean)
+      .map((text) => ` ${text}`)
+      .join("");
+    console.log(`  ${marker} ${formatMigration(migration)}${label}`);
   });
+  showOutstandingPostDeploy(statuses);
 }
 
 async function withPrismaClient<T>(
@@ -74,6 +198,48 @@ async function withPrismaClient<T>(
   }
 }
 
+async function withScratchSqliteClient<T>(
+  fn: (client: PrismaClient) => Promise<T>,
+): Promise<T> {
+  const directory = await mkdtemp(join(tmpdir(), "prisma-migrations-"));
+  const datasourceUrl = `file:${join(directory, "scratch.db")}`;
+
+  try {
+    const client = await createPrismaClient(undefined, datasourceUrl);
+    try {
+      return await fn(client);
+    } finally {
+      await client.$disconnect();
+    }
+  } finally {
+    await rm(directory, { recursive: true, force: true });
+  }
+}
+
+async function withScratchClient<T>(
+  config: MigrationsConfig,
+  prisma: PrismaClient,
+  fn: (client: PrismaClient) => Promise<T>,
+): Promise<T> {
+  if (!config.scratchClientFactory) {
+    const provider = config.provider ?? detectProvider(prisma);
+    const canUseScratchFile = provider === "sqlite" && supportsDefaultClient();
+    if (canUseScratchFile) return withScratchSqliteClient(fn);
+    throw new Error(
+      "verify-rollback needs a disposable database. " +
+        "Set scratchClientFactory in prisma-migrations.config.js; " +
+        "a scratch SQLite file is only used for SQLite projects on Prisma 6 or earlier.",
+    );
+  }
+  const client = await createPrismaClient(config.scratchClientFactory);
+
+  try {
+    return await fn(client);
+  } finally {
+    await client.$disconnect();
+  }
+}
+
 async function main() {
   const parsed = parseArgs(process.argv);
 
@@ -111,9 +277,19 @@ async function main() {
         break;
 
       case "create":
-        await create(parsed.args[0], await loadRuntimeConfig());
+        await create(parsed.args[0], await loadRuntimeConfig(), {
+          from: parsed.options.from as string | undefined,
+          autoDown: parsed.options.autoDown as boolean | undefined,
+        });
         break;
 
+      case "generate-down": {
+        const config = await loadRuntimeConfig();
+        const force = parsed.options.force as boolean;
+        const exitCode = await generateDown(parsed.args[0], config, force);
+        process.exit(exitCode);
+      }
+
       case "setup-source":
         await setupSource({ cwd: process.cwd() });
         break;
@@ -137,9 +313,17 @@ async function main() {
 
       case "up": {
         const config = await loadRuntimeConfig();
+        const phase = parsePhase(parsed.options.phase);
+        const tags = parseTagFilter(parsed.options) ?? config.tags;
+        const recheckSkipped = parsed.options.recheckSkipped as boolean;
         await withPrismaClient(config, async (client) => {
           if (parsed.options.dryRun) {
-            const migrations = new Migrations(client, config);
+            const migrations = new Migrations(client, {
+              ...config,
+              phase,
+              tags,
+              recheckSkipped,
+            });
             const steps = parseStepsOption(parsed.options.steps);
             const toRun = await migrations.dryRun(steps);
 
@@ -150,7 +334,7 @@ async function main() {
                 colors.cyan(`\nWould run ${toRun.length} migration(s):\n`),
               );
               toRun.forEach((m: MigrationFile) =>
-                console.log(`  ${m.id}_${m.name}`),
+                console.log(`  ${formatMigration(m)}`),
               );
             }
             return;
@@ -158,7 +342,23 @@ async function main() {
 
           const steps = parseStepsOption(parsed.options.steps);
           const interactive = parsed.options.interactive as boolean;
-          await up(client, steps, config, interactive);
+          const allowUnsafe = parsed.options.allowUnsafe as boolean;
+          const atomic =
+            (parsed.options.atomic as boolean | undefined) ?? config.atomic;
+          const onFailure = parseFailureMode(
+            parsed.options.onFailure,
+            config.onFailure,
+          );
+          const options = {
+            ...config,
+            phase,
+            tags,
+            recheckSkipped,
+            allowUnsafe,
+            atomic,
+            onFailure,
+          };
+          await up(client, steps, options, interactive);
         });
         break;
       }
@@ -175,8 +375,9 @@ async function main() {
 
       case "status": {
         const config = await loadRuntimeConfig();
+        const tags = parseTagFilter(parsed.options) ?? config.tags;
         await withPrismaClient(config, async (client) => {
-          const migrations = new Migrations(client, config);
+          const migrations = new Migrations(client, { ...config, tags });
           const statuses = await migrations.status();
           showMigrationStatuses(statuses);
         });
@@ -185,8 +386,9 @@ async function main() {
 
       case "pending": {
         const config = await loadRuntimeConfig();
+        const tags = parseTagFilter(parsed.options) ?? config.tags;
         await withPrismaClient(config, async (client) => {
-          const migrations = new Migrations(client, config);
+          const migrations = new Migrations(client, { ...config, tags });
           const pending = await migrations.pending();
 
           if (pending.length === 0) {
@@ -196,9 +398,10 @@ async function main() {
               colors.cyan(`\n${pending.length} pending migration(s):\n`),
             );
             pending.forEach((m: MigrationFile) =>
-              console.log(`  ${m.id}_${m.name}`),
+              console.log(`  ${formatMigration(m)}`),
             );
           }
+          showSkippedMigrations(await migrations.skipped());
         });
         break;
       }
@@ -276,7 +479,10 @@ async function main() {
       case "fresh": {
         const config = await loadRuntimeConfig();
         await withPrismaClient(config, async (client) => {
-          const migrations = new Migrations(client, config);
+          const migrations = new Migrations(client, {
+            ...config,
+            allowUnsafe: parsed.options.allowUnsafe as boolean,
+          });
 
           const shouldProceed =
             parsed.options.force ||
@@ -308,7 +514,10 @@ async function main() {
       case "refresh": {
         const config = await loadRuntimeConfig();
         await withPrismaClient(config, async (client) => {
-          const migrations = new Migrations(client, config);
+          const migrations = new Migrations(client, {
+            ...config,
+            allowUnsafe: parsed.options.allowUnsafe as boolean,
+          });
 
           const shouldProceed =
             parsed.options.force ||
@@ -337,6 +546,69 @@ async function main() {
         break;
       }
 
+      case "baseline": {
+        const config = await loadRuntimeConfig();
+        const exitCode = await withPrismaClient(config, (client) =>
+          baseline(client, parsed.args[0], config),
+        );
+        process.exit(exitCode);
+      }
+
+      case "lint": {
+        const config = await loadRuntimeConfig();
+        const exitCode = await withPrismaClient(config, (client) =>
+          lint(client, config),
+        );
+        process.exit(exitCode);
+      }
+
+      case "backfill-down": {
+        const exitCode = await backfillDown(await loadRuntimeConfig());
+        process.exit(exitCode);
+      }
+
+      case "convert": {
+        const config = await loadRuntimeConfig();
+        const exitCode = await convert(
+          parsed.options.from,
+          config,
+          parsed.args[0],
+        );
+        process.exit(exitCode);
+      }
+
+      case "import": {
+        const config = await loadRuntimeConfig();
+        const importOptions = {
+          sourceDir: parsed.options.dir as string | undefined,
+          table: parsed.options.table as string | undefined,
+        };
+        const exitCode = await withPrismaClient(config, (client) =>
+          importMigrations(client, parsed.options.from, importOptions, config),
+        );
+        process.exit(exitCode);
+      }
+
+      case "squash": {
+        const config = await loadRuntimeConfig();
+        const migrationId = parsed.options.to as string | undefined;
+        const exitCode = await withPrismaClient(config, (client) =>
+          squash(client, migrationId, config),
+        );
+        process.exit(exitCode);
+      }
+
+      case "verify-rollback": {
+        const config = await loadRuntimeConfig();
+        const verifyAll = parsed.options.all === true;
+        const exitCode = await withPrismaClient(config, (client) =>
+          withScratchClient(config, client, (scratch) =>
+            verifyRollback(client, scratch, verifyAll, config),
+          ),
+        );
+        process.exit(exitCode);
+      }
+
       case "dev":
         await prisma.dev(parsed.args[0]);
         break;
@@ -347,12 +619,18 @@ async function main() {
         break;
       }
 
-      case "resolve":
-        await prisma.resolve({
-          applied: parsed.options.applied as string,
-          rolledBack: parsed.options.rolledBack as string,
-        });
-        break;
+      case "resolve": {
+        const config = await loadRuntimeConfig();
+        const options = {
+          applied: parsed.options.applied as string | undefined,
+          rolledBack: parsed.options.rolledBack as string | undefined,
+          retry: parsed.options.retry as string | undefined,
+        };
+        const exitCode = await withPrismaClient(config, (client) =>
+          resolve(client, options, config),
+        );
+        process.exit(exitCode);
+      }
 
       case "push":
         await prisma.dbPush({
@@ -24,6 +24,15 @@ function getVersion(): string {
   }
 }
 
+function appendOption(
+  options: Record<string, unknown>,
+  key: string,
+  value: string | undefined,
+): void {
+  const values = (options[key] as (string | undefined)[] | undefined) ?? [];
+  options[key] = [...values, value];
+}
+
 function parseArgs(argv: string[]): ParsedArgs {
   const args = argv.slice(2);
   const options: Record<string, unknown> = {};
@@ -94,6 +103,60 @@ function parseArgs(argv: string[]): ParsedArgs {
       continue;
     }
 
+    if (arg === "--allow-unsafe") {
+      options.allowUnsafe = true;
+      i++;
+      continue;
+    }
+
+    if (arg === "--atomic") {
+      options.atomic = true;
+      i++;
+      continue;
+    }
+
+    if (arg === "--tag") {
+      appendOption(options, "tag", args[i + 1]);
+      i += 2;
+      continue;
+    }
+
+    if (arg === "--exclude-tag") {
+      appendOption(options, "excludeTag", args[i + 1]);
+      i += 2;
+      continue;
+    }
+
+    if (arg === "--recheck-skipped") {
+      options.recheckSkipped = true;
+      i++;
+      continue;
+    }
+
+    if (arg === "--phase") {
+      options.phase = args[i + 1];
+      i += 2;
+      continue;
+    }
+
+    if (arg === "--on-failure") {
+      options.onFailure = args[i + 1];
+      i += 2;
+      continue;
+    }
+
+    if (arg === "--auto-down") {
+      options.autoDown = true;
+      i++;
+      continue;
+    }
+
+    if (arg === "--all") {
+      options.all = true;
+      i++;
+      continue;
+    }
+
     if (arg === "--skip-generate") {
       options.skipGenerate = true;
       i++;
@@ -170,6 +233,15 @@ COMMANDS:
   reset                         Rollback all migrations
   fresh                         Rollback all migrations and re-run them
   refresh                       Rollback all migrations and re-run them (alias for fresh)
+  lint                          Check pending migrations for dangerous operations
+  baseline <migration>          Mark migrations up to <migration> as applied without running them
+  squash --to <migration>       Combine migrations up to <migration> into one baseline migration
+  generate-down <migration>     Write down.sql by inverting the forward DDL
+  backfill-down                 Write down.sql for every migration that lacks one
+  convert --from flyway [dir]   Rewrite Flyway V/U files into migration directories
+  import --from <orm>           Import knex, TypeORM or Sequelize migrations and their history
+  verify-rollback               Run up, down, up on a scratch database and compare schemas
+  resolve                       Retry or mark failed migrations as applied or rolled back
 
   Monorepo Commands:
   setup-source                  Set up source package for type exports
@@ -179,7 +251,6 @@ COMMANDS:
   Prisma Wrapper Commands:
   dev [name]                    Create and apply a new Prisma schema migration
   deploy                        Apply pending Prisma schema migrations
-  resolve                       Resolve migration issues
   push                          Push schema changes to database
   generate                      Generate Prisma Client
 
@@ -197,6 +268,17 @@ COMMAND OPTIONS:
     -s, --steps <number>        Number of migrations to run
     -i, --interactive           Interactive mode
     --dry-run                   Show what migrations would run without executing
+    --allow-unsafe              Run even when lint rules set to "error" fail
+    --atomic                    Apply every selected migration in one transaction
+    --on-failure <mode>         "stop" (default) or "rollback-batch" to undo this run's migrations
+    --phase <pre|post>          Only run pre-deploy or post-deploy migrations
+    --recheck-skipped           Re-evaluate condition.sql for skipped migrations
+    --tag <tag>                 Only run migrations with this tag (repeatable)
+    --exclude-tag <tag>         Skip migrations with this tag (repeatable)
+
+  status, pending:
+    --tag <tag>                 Only list migrations with this tag (repeatable)
+    --exclude-tag <tag>         Treat migrations with this tag as excluded (repeatable)
 
   down:
     -s, --steps <number>        Number of migrations to rollback (default: 1)
@@ -205,6 +287,9 @@ COMMAND OPTIONS:
   reset, fresh, refresh:
     -f, --force                 Skip confirmation prompt
 
+  fresh, refresh:
+    --allow-unsafe              Run even when lint rules set to "error" fail
+
   validate:
     --source                    Validate as source package
     --check <package>           Check if consumer package has source linked
@@ -212,9 +297,29 @@ COMMAND OPTIONS:
   push:
     --skip-generate             Skip generating Prisma Client
 
+  create:
+    --from <file>               Use the SQL in <file> as the forward migration
+    --auto-down                 Generate down.sql from the forward SQL (requires --from)
+
+  generate-down:
+    -f, --force                 Overwrite an existing down.sql
+
+  squash:
+    --to <migration>            Last migration to include in the squash
+
+  import:
+    --from <orm>                knex, typeorm or sequelize
+    --dir <path>                Source migrations folder; unapplied files become stubs to port
+    --table <name>              Source history table (default knex_migrations, migrations, SequelizeMeta)
+
+  verify-rollback:
+    --all                       Verify every migration instead of only pending ones
+
   resolve:
     --applied <migration>       Mark a migration as applied
-    --rolled-back <migration>   Mark a migration as rolled back
+    --rolled-back <migration>   Mark a failed migration as rolled back
+    --retry <migration>         Run a failed migration again
+                                Without options, choose a failed migration interactively
 
 EXAMPLES:
   prisma-migrations init
@@ -226,6 +331,7 @@ EXAMPLES:
   prisma-migrations down --steps 3
   prisma-migrations reset --force
   prisma-migrations status
+  prisma-migrations baseline 20240101000000
 `;
 
 function showHelp(): void {
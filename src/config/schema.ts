@@ -1,4 +1,17 @@
-import type { MigrationHooks } from "../migrations";
+import type {
+  DatabaseProvider,
+  FailureMode,
+  LintRuleName,
+  LintRules,
+  LintSeverity,
+  MigrationHooks,
+  MigrationLayout,
+  TagFilter,
+} from "../migrations";
+import { isDatabaseProvider } from "../migrations/dialect";
+import { isMigrationLayout } from "../migrations/discovery";
+import { LINT_RULE_NAMES } from "../migrations/lint";
+import { readTagList } from "../migrations/selection";
 import type { PrismaClient } from "../types";
 
 export type LogLevel = "silent" | "error" | "warn" | "info" | "debug" | "trace";
@@ -6,6 +19,7 @@ export type PrismaClientFactory = () => PrismaClient | Promise<PrismaClient>;
 
 export interface MigrationsConfig {
   migrationsDir?: string;
+  layout?: MigrationLayout;
   disableLocking?: boolean;
   skipChecksumValidation?: boolean;
   lockTimeout?: number;
@@ -13,6 +27,14 @@ export interface MigrationsConfig {
   logLevel?: LogLevel;
   hooks?: MigrationHooks;
   clientFactory?: PrismaClientFactory;
+  scratchClientFactory?: PrismaClientFactory;
+  provider?: DatabaseProvider;
+  environment?: string;
+  tags?: TagFilter;
+  allowOutOfOrder?: boolean;
+  lint?: LintRules;
+  atomic?: boolean;
+  onFailure?: FailureMode;
 }
 
 type ConfigRecord = Record<string, unknown>;
@@ -20,6 +42,7 @@ type MigrationHook = NonNullable<MigrationHooks["beforeUp"]>;
 
 const CONFIG_KEYS = new Set([
   "migrationsDir",
+  "layout",
   "disableLocking",
   "skipChecksumValidation",
   "lockTimeout",
@@ -27,8 +50,19 @@ const CONFIG_KEYS = new Set([
   "logLevel",
   "hooks",
   "clientFactory",
+  "scratchClientFactory",
+  "provider",
+  "environment",
+  "tags",
+  "allowOutOfOrder",
+  "lint",
+  "atomic",
+  "onFailure",
 ]);
+const FAILURE_MODES = new Set<FailureMode>(["stop", "rollback-batch"]);
+const LINT_SEVERITIES = new Set<LintSeverity>(["error", "warn", "off"]);
 const HOOK_KEYS = new Set(["beforeUp", "afterUp", "beforeDown", "afterDown"]);
+const TAG_FILTER_KEYS = new Set(["include", "exclude"]);
 const LOG_LEVELS = new Set<LogLevel>([
   "silent",
   "error",
@@ -81,10 +115,74 @@ function readLogLevel(value: unknown): LogLevel | undefined {
   throw new Error('Configuration option "logLevel" is invalid');
 }
 
-function readClientFactory(value: unknown): PrismaClientFactory | undefined {
+function readProvider(value: unknown): DatabaseProvider | undefined {
+  if (value === undefined) return undefined;
+  if (isDatabaseProvider(value)) return value;
+  throw new Error('Configuration option "provider" is invalid');
+}
+
+function readLayout(value: unknown): MigrationLayout | undefined {
+  if (value === undefined) return undefined;
+  if (isMigrationLayout(value)) return value;
+  throw new Error(
+    'Configuration option "layout" must be "prisma", "golang-migrate" or "flyway"',
+  );
+}
+
+function readFailureMode(value: unknown): FailureMode | undefined {
+  if (value === undefined) return undefined;
+  const isValid =
+    typeof value === "string" && FAILURE_MODES.has(value as FailureMode);
+  if (isValid) return value as FailureMode;
+  throw new Error(
+    'Configuration option "onFailure" must be "stop" or "rollback-batch"',
+  );
+}
+
+function readLintSeverity(value: unknown, rule: string): LintSeverity {
+  const isValid =
+    typeof value === "string" && LINT_SEVERITIES.has(value as LintSeverity);
+  if (isValid) return value as LintSeverity;
+  throw new Error(`Lint rule "${rule}" must be "error", "warn" or "off"`);
+}
+
+function readLintRules(value: unknown): LintRules | undefined {
+  if (value === undefined) return undefined;
+  const rules = toRecord(
+    value,
+    'Configuration option "lint" must be an object',
+  );
+  assertKnownKeys(rules, new Set(LINT_RULE_NAMES), "lint rule");
+  const entries = Object.entries(rules).map(([rule, severity]) => {
+    const entry: [LintRuleName, LintSeverity] = [
+      rule as LintRuleName,
+      readLintSeverity(severity, rule),
+    ];
+    return entry;
+  });
+  return Object.fromEntries(entries);
+}
+
+function tagListMessage(name: string): string {
+  return `Tag filter "${name}" must be an array of non-empty strings`;
+}
+
+function readTagFilter(value: unknown): TagFilter | undefined {
+  if (value === undefined) return undefined;
+  const tags = toRecord(value, 'Configuration option "tags" must be an object');
+  assertKnownKeys(tags, TAG_FILTER_KEYS, "tag filter");
+  const include = readTagList(tags.include, tagListMessage("include"));
+  const exclude = readTagList(tags.exclude, tagListMessage("exclude"));
+  return { include, exclude };
+}
+
+function readClientFactory(
+  value: unknown,
+  name: string,
+): PrismaClientFactory | undefined {
   if (value === undefined) return undefined;
   if (typeof value === "function") return value as PrismaClientFactory;
-  throw new Error('Configuration option "clientFactory" must be a function');
+  throw new Error(`Configuration option "${name}" must be a function`);
 }
 
 function readHook(value: unknown, name: string): MigrationHook | undefined {
@@ -112,6 +210,7 @@ export function validateConfig(config: unknown): MigrationsConfig {
   const value = toRecord(config, message);
   assertKnownKeys(value, CONFIG_KEYS, "configuration option");
   const migrationsDir = readString(value.migrationsDir, "migrationsDir");
+  const layout = readLayout(value.layout);
   const disableLocking = readBoolean(value.disableLocking, "disableLocking");
   const skipChecksumValidation = readBoolean(
     value.skipChecksumValidation,
@@ -124,9 +223,21 @@ export function validateConfig(config: unknown): MigrationsConfig {
   );
   const logLevel = readLogLevel(value.logLevel);
   const hooks = readHooks(value.hooks);
-  const clientFactory = readClientFactory(value.clientFactory);
+  const clientFactory = readClientFactory(value.clientFactory, "clientFactory");
+  const scratchClientFactory = readClientFactory(
+    value.scratchClientFactory,
+    "scratchClientFactory",
+  );
+  const provider = readProvider(value.provider);
+  const environment = readString(value.environment, "environment");
+  const tags = readTagFilter(value.tags);
+  const allowOutOfOrder = readBoolean(value.allowOutOfOrder, "allowOutOfOrder");
+  const lint = readLintRules(value.lint);
+  const atomic = readBoolean(value.atomic, "atomic");
+  const onFailure = readFailureMode(value.onFailure);
   return {
     migrationsDir,
+    layout,
     disableLocking,
     skipChecksumValidation,
     lockTimeout,
@@ -134,5 +245,13 @@ export function validateConfig(config: unknown): MigrationsConfig {
     logLevel,
     hooks,
     clientFactory,
+    scratchClientFactory,
+    provider,
+    environment,
+    tags,
+    allowOutOfOrder,
+    lint,
+    atomic,
+    onFailure,
   };
 }
@@ -1,3 +1,4 @@
+import { summarizeStatement } from "../utils";
 import { colors } from "../utils/colors";
 
 export class MigrationError extends Error {
@@ -28,6 +29,25 @@ export class MigrationError extends Error {
   }
 }
 
+export interface BatchSummary {
+  applied: string[];
+  failed: string;
+  compensated: string[];
+  notCompensated: string[];
+  compensationError?: string;
+}
+
+export class MigrationBatchError extends MigrationError {
+  constructor(
+    message: string,
+    suggestions: string[],
+    public readonly summary: BatchSummary,
+  ) {
+    super(message, suggestions);
+    this.name = "MigrationBatchError";
+  }
+}
+
 export function createMigrationNotFoundError(
   migrationId: string,
 ): MigrationError {
@@ -54,6 +74,7 @@ export function createInvalidMigrationError(
   return new MigrationError(`Migration ${migrationId} is invalid: ${reason}`, [
     "Check that migration.sql exists in the migration directory",
     "Put forward SQL in migration.sql and rollback SQL in down.sql",
+    "TypeScript and JavaScript migrations must export up and down functions",
     "Legacy combined files must contain valid Up and Down markers",
     "Verify the SQL syntax is correct",
   ]);
@@ -156,3 +177,138 @@ export function createTransactionFailedError(
     ],
   );
 }
+
+function describeAppliedStatements(count: number): string {
+  if (count === 0) return "No statements were applied before the failure";
+  if (count === 1) return "Statement 1 was applied and was not rolled back";
+  return `Statements 1-${count} were applied and were not rolled back`;
+}
+
+export function createStatementFailedError(
+  migrationId: string,
+  statementNumber: number,
+  statementCount: number,
+  statement: string,
+  error: Error,
+): MigrationError {
+  const appliedMessage = describeAppliedStatements(statementNumber - 1);
+  return new MigrationError(
+    `Migration ${migrationId} failed at statement ${statementNumber} of ${statementCount}: ${error.message}`,
+    [
+      `Failed statement: ${summarizeStatement(statement)}`,
+      appliedMessage,
+      "This migration runs without a transaction (transaction=false)",
+      "Fix the database state manually before retrying",
+    ],
+  );
+}
+
+export function createInvariantFailedError(
+  migrationId: string,
+  fileName: string,
+  statement: string,
+  rowCount: number,
+): MigrationError {
+  return new MigrationError(
+    `${fileName} for migration ${migrationId} returned ${rowCount} row(s); the migration was not applied`,
+    [
+      `Query: ${summarizeStatement(statement)}`,
+      "Fix the rows the query returns, then run the migration again",
+      `${fileName} must return no rows for the migration to pass`,
+    ],
+  );
+}
+
+export function createLintFailedError(errors: string[]): MigrationError {
+  return new MigrationError(
+    `Migration lint found ${errors.length} error(s); no migrations were run`,
+    [
+      ...errors,
+      "Run 'prisma-migrations lint' to review every finding",
+      "Pass --allow-unsafe to run the migrations anyway",
+    ],
+  );
+}
+
+export function createIrreversibleMigrationError(
+  migrationIds: string[],
+): MigrationError {
+  return new MigrationError(
+    `Cannot roll back ${migrationIds.join(", ")}: marked irreversible; no migrations were rolled back`,
+    [
+      "Irreversible migrations have an irreversible directive or a down.sql containing only '-- irreversible'",
+      "Roll back to a migration after the irreversible one instead",
+      "Restore from a backup if the changes must be undone",
+    ],
+  );
+}
+
+export function createMissingRollbackError(
+  migrationIds: string[],
+): MigrationError {
+  return new MigrationError(
+    `Cannot roll back ${migrationIds.join(", ")}: no rollback SQL; no migrations were rolled back`,
+    [
+      "Add a down.sql with the rollback statements",
+      "Run generate-down to draft rollback SQL from migration.sql",
+      "Mark the migration irreversible if it cannot be undone",
+    ],
+  );
+}
+
+export function createTypeScriptMigrationError(
+  migrationName: string,
+): MigrationError {
+  return new MigrationError(
+    `Cannot load ${migrationName}: this Node.js version cannot import migration.ts files`,
+    [
+      "Compile the migration to migration.js, or write it in SQL",
+      "Run the CLI with bun, or with Node.js 22.18 or later, which strips TypeScript types",
+    ],
+  );
+}
+
+export function createAtomicBatchFailedError(
+  migrationId: string,
+  migrationCount: number,
+  error: Error,
+): MigrationError {
+  return new MigrationError(
+    `Atomic batch failed at migration ${migrationId}: ${error.message}`,
+    [
+      `None of the ${migrationCount} migration(s) in the batch were applied`,
+      "No failure was recorded in the migration history",
+      "Fix the migration and run the batch again",
+    ],
+  );
+}
+
+function describeCompensation(summary: BatchSummary): string[] {
+  const lines = [];
+  if (summary.compensated.length > 0) {
+    lines.push(`Rolled back: ${summary.compensated.join(", ")}`);
+  }
+  if (summary.notCompensated.length > 0) {
+    lines.push(`Still applied: ${summary.notCompensated.join(", ")}`);
+  }
+  if (summary.compensationError) {
+    lines.push(`Compensation stopped: ${summary.compensationError}`);
+  }
+  return lines;
+}
+
+export function createBatchRolledBackError(
+  summary: BatchSummary,
+  error: Error,
+): MigrationBatchError {
+  const total = summary.applied.length;
+  const count = summary.compensated.length;
+  return new MigrationBatchError(
+    `${error.message}; rolled back ${count} of ${total} migration(s) applied earlier in this batch`,
+    [
+      ...describeCompensation(summary),
+      "Resolve the failed migration: prisma-migrations resolve",
+    ],
+    summary,
+  );
+}
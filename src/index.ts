@@ -1,5 +1,20 @@
 export { Migrations } from "./migrations";
-export type { MigrationHooks, MigrationsOptions } from "./migrations";
+export { MigrationBatchError } from "./errors";
+export type { BatchSummary } from "./errors";
+export type {
+  DatabaseProvider,
+  FailedMigration,
+  FailureMode,
+  ImportedMigration,
+  ImportOptions,
+  ImportSource,
+  MigrationHooks,
+  MigrationLayout,
+  MigrationProgress,
+  MigrationsOptions,
+  RollbackVerification,
+  TagFilter,
+} from "./migrations";
 export type { MigrationsConfig, PrismaClientFactory } from "./config";
 export type {
   Migration,
@@ -7,5 +22,8 @@ export type {
   PrismaClient,
   PrismaMigrationClient,
   MigrationFile,
+  MigrationFormat,
+  MigrationKind,
+  MigrationPhase,
   MigrationStatus,
 } from "./types";
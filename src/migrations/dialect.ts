@@ -0,0 +1,173 @@
+import type { PrismaClient } from "../types";
+import type { MigrationMetadata } from "./sql";
+
+export type DatabaseProvider =
+  "postgresql" | "cockroachdb" | "mysql" | "sqlite" | "sqlserver";
+
+export interface SessionSettings {
+  apply: string[];
+  reset: string[];
+}
+
+type SettingsBuilder = (metadata: MigrationMetadata) => SessionSettings;
+type SettingEntry = [value: unknown, statement: string];
+
+const DATABASE_PROVIDERS = new Set<DatabaseProvider>([
+  "postgresql",
+  "cockroachdb",
+  "mysql",
+  "sqlite",
+  "sqlserver",
+]);
+
+const TRANSACTIONAL_DDL_PROVIDERS = new Set<DatabaseProvider>([
+  "postgresql",
+  "sqlite",
+  "sqlserver",
+]);
+
+const SEARCH_PATH_PATTERN = /^[A-Za-z0-9_$",]+$/;
+
+export function isDatabaseProvider(value: unknown): value is DatabaseProvider {
+  if (typeof value !== "string") return false;
+  return DATABASE_PROVIDERS.has(value as DatabaseProvider);
+}
+
+export function hasTransactionalDdl(
+  provider: DatabaseProvider | undefined,
+): boolean {
+  if (!provider) return false;
+  return TRANSACTIONAL_DDL_PROVIDERS.has(provider);
+}
+
+export function detectProvider(
+  prisma: PrismaClient,
+): DatabaseProvider | undefined {
+  const client = prisma as unknown as {
+    _activeProvider?: unknown;
+    _engineConfig?: { activeProvider?: unknown };
+  };
+  const provider =
+    client._activeProvider ?? client._engineConfig?.activeProvider;
+  if (isDatabaseProvider(provider)) return provider;
+  return undefined;
+}
+
+export function hasSessionSettings(metadata: MigrationMetadata): boolean {
+  const settings = [
+    metadata.statementTimeout,
+    metadata.lockTimeout,
+    metadata.searchPath,
+  ];
+  return settings.some((setting) => setting !== undefined);
+}
+
+function selectStatements(entries: SettingEntry[]): string[] {
+  return entries
+    .filter(([value]) => value !== undefined)
+    .map(([, statement]) => statement);
+}
+
+function assertUnsupported(
+  value: unknown,
+  directive: string,
+  provider: DatabaseProvider,
+): void {
+  if (value === undefined) return;
+  throw new Error(`The ${directive} directive is not supported on ${provider}`);
+}
+
+function readSearchPath(metadata: MigrationMetadata): string | undefined {
+  const searchPath = metadata.searchPath;
+  if (searchPath === undefined) return undefined;
+  if (SEARCH_PATH_PATTERN.test(searchPath)) return searchPath;
+  throw new Error(`Invalid search_path directive "${searchPath}"`);
+}
+
+function buildPostgresSettings(metadata: MigrationMetadata): SessionSettings {
+  const searchPath = readSearchPath(metadata);
+  const apply = selectStatements([
+    [
+      metadata.statementTimeout,
+      `SET LOCAL statement_timeout = ${metadata.statementTimeout}`,
+    ],
+    [metadata.lockTimeout, `SET LOCAL lock_timeout = ${metadata.lockTimeout}`],
+    [searchPath, `SET LOCAL search_path TO ${searchPath}`],
+  ]);
+  const reset = selectStatements([
+    [metadata.statementTimeout, "SET LOCAL statement_timeout TO DEFAULT"],
+    [metadata.lockTimeout, "SET LOCAL lock_timeout TO DEFAULT"],
+    [searchPath, "SET LOCAL search_path TO DEFAULT"],
+  ]);
+  return { apply, reset };
+}
+
+function buildMysqlSettings(metadata: MigrationMetadata): SessionSettings {
+  assertUnsupported(metadata.searchPath, "search_path", "mysql");
+  const lockTimeoutSeconds = Math.max(
+    1,
+    Math.ceil((metadata.lockTimeout ?? 0) / 1000),
+  );
+  const apply = selectStatements([
+    [
+      metadata.statementTimeout,
+      `SET SESSION max_execution_time = ${metadata.statementTimeout}`,
+    ],
+    [
+      metadata.lockTimeout,
+      `SET SESSION lock_wait_timeout = ${lockTimeoutSeconds}`,
+    ],
+  ]);
+  const reset = selectStatements([
+    [metadata.statementTimeout, "SET SESSION max_execution_time = DEFAULT"],
+    [metadata.lockTimeout, "SET SESSION lock_wait_timeout = DEFAULT"],
+  ]);
+  return { apply, reset };
+}
+
+function buildSqliteSettings(metadata: MigrationMetadata): SessionSettings {
+  assertUnsupported(metadata.statementTimeout, "statement_timeout", "sqlite");
+  assertUnsupported(metadata.searchPath, "search_path", "sqlite");
+  const apply = selectStatements([
+    [metadata.lockTimeout, `PRAGMA busy_timeout = ${metadata.lockTimeout}`],
+  ]);
+  return { apply, reset: [] };
+}
+
+function buildSqlServerSettings(metadata: MigrationMetadata): SessionSettings {
+  assertUnsupported(
+    metadata.statementTimeout,
+    "statement_timeout",
+    "sqlserver",
+  );
+  assertUnsupported(metadata.searchPath, "search_path", "sqlserver");
+  const apply = selectStatements([
+    [metadata.lockTimeout, `SET LOCK_TIMEOUT ${metadata.lockTimeout}`],
+  ]);
+  const reset = selectStatements([
+    [metadata.lockTimeout, "SET LOCK_TIMEOUT -1"],
+  ]);
+  return { apply, reset };
+}
+
+const SETTINGS_BUILDERS: Record<DatabaseProvider, SettingsBuilder> = {
+  postgresql: buildPostgresSettings,
+  cockroachdb: buildPostgresSettings,
+  mysql: buildMysqlSettings,
+  sqlite: buildSqliteSettings,
+  sqlserver: buildSqlServerSettings,
+};
+
+export function buildSessionSettings(
+  provider: DatabaseProvider | undefined,
+  metadata: MigrationMetadata,
+): SessionSettings {
+  if (!hasSessionSettings(metadata)) return { apply: [], reset: [] };
+  if (!provider) {
+    throw new Error(
+      "Session setting directives need a database provider. " +
+        'Set the "provider" option.',
+    );
+  }
+  return SETTINGS_BUILDERS[provider](metadata);
+}
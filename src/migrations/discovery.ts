@@ -1,24 +1,58 @@
 import type { Dirent } from "fs";
-import { access, readFile, readdir } from "fs/promises";
+import { readFile, readdir } from "fs/promises";
 import { join } from "path";
 import { logger } from "../logger";
-import type { MigrationFile } from "../types";
+import type { MigrationFile, MigrationFormat, MigrationKind } from "../types";
+import { pathExists } from "../utils";
+import { orderMigrations } from "./graph";
+import { REPEATABLE_ID_PREFIX } from "./history";
+import { parseMigrationMetadata, type MigrationMetadata } from "./sql";
 
-const MIGRATION_DIRECTORY_PATTERN = /^(\d+)_(.+)$/;
+const MIGRATION_DIRECTORY_PATTERN = /^(\d+(?:\.\d+)*)_(.+)$/;
+const MIGRATION_FILE_NAMES = ["migration.sql", "migration.ts", "migration.js"];
+const SIBLING_FILE_NAMES = [
+  "down.sql",
+  "check.sql",
+  "verify.sql",
+  "condition.sql",
+];
 const UP_MARKER = "-- Migration: Up";
 const DOWN_MARKER = "-- Migration: Down";
+const REPEATABLE_DIRECTORY = "repeatable";
+const REPEATABLE_FILE_PATTERN = /^(.+)\.sql$/;
+const FLAT_FILE_PATTERN = /^(\d+)_(.+)\.(up|down)\.sql$/;
+const FLYWAY_FILE_PATTERN = /^([VU])(\d+(?:[._]\d+)*)__(.+)\.sql$/;
+
+export type MigrationLayout = "prisma" | "golang-migrate" | "flyway";
 
 export interface DiscoveredMigration extends MigrationFile {
-  format: "prisma" | "legacy";
+  format: MigrationFormat;
+  kind: MigrationKind;
+  metadata: MigrationMetadata;
+  rollbackPath?: string;
 }
 
 type PathResult = Promise<string>;
-type FormatResult = Promise<"prisma" | "legacy">;
 type OptionalPathResult = Promise<string | undefined>;
 type MigrationResult = Promise<DiscoveredMigration>;
 type EntriesResult = Promise<Dirent[]>;
 type MigrationListResult = Promise<DiscoveredMigration[]>;
 type OptionalMigrationResult = Promise<DiscoveredMigration | null>;
+type MigrationComparator = (
+  left: DiscoveredMigration,
+  right: DiscoveredMigration,
+) => number;
+
+interface LayoutStrategy {
+  discover: (migrationsDir: string) => MigrationListResult;
+  compare: MigrationComparator;
+}
+
+export const MIGRATION_LAYOUTS: MigrationLayout[] = [
+  "prisma",
+  "golang-migrate",
+  "flyway",
+];
 
 function parseDirectoryName(name: string): { id: string; name: string } {
   const match = name.match(MIGRATION_DIRECTORY_PATTERN);
@@ -28,30 +62,23 @@ function parseDirectoryName(name: string): { id: string; name: string } {
   return { id, name: migrationName };
 }
 
-async function pathExists(path: string): Promise<boolean> {
-  try {
-    await access(path);
-    return true;
-  } catch {
-    return false;
-  }
-}
-
 async function requireMigrationPath(
   migrationsDir: string,
   entryName: string,
 ): PathResult {
-  const path = join(migrationsDir, entryName, "migration.sql");
-  const exists = await pathExists(path);
-  if (exists) {
-    return path;
-  }
-  const message = `No migration.sql file found in ${entryName}`;
+  const paths = MIGRATION_FILE_NAMES.map((fileName) => {
+    return join(migrationsDir, entryName, fileName);
+  });
+  const results = await Promise.all(paths.map(pathExists));
+  const path = paths.find((_, index) => results[index]);
+  if (path) return path;
+  const message = `No migration.sql, migration.ts or migration.js file found in ${entryName}`;
   throw new Error(message);
 }
 
-async function detectFormat(path: string): FormatResult {
-  const sql = await readFile(path, "utf-8");
+function detectFormat(path: string, sql: string): MigrationFormat {
+  const isModule = !path.endsWith(".sql");
+  if (isModule) return "module";
   const hasUpMarker = sql.includes(UP_MARKER);
   const hasDownMarker = sql.includes(DOWN_MARKER);
   const isLegacy = hasUpMarker && hasDownMarker;
@@ -59,11 +86,16 @@ async function detectFormat(path: string): FormatResult {
   return "prisma";
 }
 
-async function detectDownPath(
-  migrationsDir: string,
-  entryName: string,
-): OptionalPathResult {
-  const path = join(migrationsDir, entryName, "down.sql");
+function readMetadata(entryName: string, content: string): MigrationMetadata {
+  try {
+    return parseMigrationMetadata(content);
+  } catch (error) {
+    const reason = error instanceof Error ? error.message : String(error);
+    throw new Error(`Invalid directives in ${entryName}: ${reason}`);
+  }
+}
+
+async function detectPath(path: string): OptionalPathResult {
   const exists = await pathExists(path);
   if (exists) return path;
   return undefined;
@@ -75,11 +107,96 @@ async function mapMigration(
 ): MigrationResult {
   const parsedName = parseDirectoryName(entry.name);
   const path = await requireMigrationPath(migrationsDir, entry.name);
-  const format = await detectFormat(path);
-  const downPath = await detectDownPath(migrationsDir, entry.name);
+  const content = await readFile(path, "utf-8");
+  const format = detectFormat(path, content);
+  const metadata = readMetadata(entry.name, content);
+  const [downPath, checkPath, verifyPath, conditionPath] = await Promise.all(
+    SIBLING_FILE_NAMES.map((fileName) => {
+      return detectPath(join(migrationsDir, entry.name, fileName));
+    }),
+  );
   const id = parsedName.id;
   const name = parsedName.name;
-  return { id, name, path, format, downPath };
+  const kind = "versioned";
+  return {
+    id,
+    name,
+    path,
+    format,
+    kind,
+    metadata,
+    downPath,
+    checkPath,
+    verifyPath,
+    conditionPath,
+    rollbackPath: join(migrationsDir, entry.name, "down.sql"),
+  };
+}
+
+async function mapFlatMigration(
+  migrationsDir: string,
+  fileName: string,
+): MigrationResult {
+  const [, id, name] = fileName.match(FLAT_FILE_PATTERN)!;
+  const baseName = `${id}_${name}`;
+  const path = join(migrationsDir, fileName);
+  const content = await readFile(path, "utf-8");
+  const metadata = readMetadata(fileName, content);
+  const [downPath, checkPath, verifyPath, conditionPath] = await Promise.all(
+    SIBLING_FILE_NAMES.map((suffix) => {
+      return detectPath(join(migrationsDir, `${baseName}.${suffix}`));
+    }),
+  );
+  return {
+    id,
+    name,
+    path,
+    format: "prisma",
+    kind: "versioned",
+    metadata,
+    downPath,
+    checkPath,
+    verifyPath,
+    conditionPath,
+    rollbackPath: join(migrationsDir, `${baseName}.down.sql`),
+  };
+}
+
+async function mapFlywayMigration(
+  migrationsDir: string,
+  fileName: string,
+): MigrationResult {
+  const [, , version, name] = fileName.match(FLYWAY_FILE_PATTERN)!;
+  const path = join(migrationsDir, fileName);
+  const rollbackPath = join(migrationsDir, toFlywayUndoName(fileName));
+  const content = await readFile(path, "utf-8");
+  const metadata = readMetadata(fileName, content);
+  const downPath = await detectPath(rollbackPath);
+  return {
+    id: version.replaceAll("_", "."),
+    name,
+    path,
+    format: "prisma",
+    kind: "versioned",
+    metadata,
+    downPath,
+    rollbackPath,
+  };
+}
+
+async function mapRepeatableMigration(
+  repeatableDir: string,
+  entry: Dirent,
+): MigrationResult {
+  const name = entry.name.replace(REPEATABLE_FILE_PATTERN, "$1");
+  const path = join(repeatableDir, entry.name);
+  const content = await readFile(path, "utf-8");
+  const metadata = readMetadata(
+    `${REPEATABLE_DIRECTORY}/${entry.name}`,
+    content,
+  );
+  const id = `${REPEATABLE_ID_PREFIX}${name}`;
+  return { id, name, path, format: "prisma", kind: "repeatable", metadata };
 }
 
 function getDuplicateId(migrations: DiscoveredMigration[]): string | undefined {
@@ -92,6 +209,57 @@ function isMigrationDirectory(entry: Dirent): boolean {
   return MIGRATION_DIRECTORY_PATTERN.test(entry.name);
 }
 
+function isFlatMigrationFile(entry: Dirent): boolean {
+  if (!entry.isFile()) return false;
+  return FLAT_FILE_PATTERN.test(entry.name);
+}
+
+function isFlywayMigrationFile(entry: Dirent): boolean {
+  if (!entry.isFile()) return false;
+  return FLYWAY_FILE_PATTERN.test(entry.name);
+}
+
+function isFlatRollbackName(fileName: string): boolean {
+  return fileName.endsWith(".down.sql");
+}
+
+function toFlatForwardName(fileName: string): string {
+  return fileName.replace(/\.down\.sql$/, ".up.sql");
+}
+
+function isFlywayUndoName(fileName: string): boolean {
+  return fileName.startsWith("U");
+}
+
+function toFlywayForwardName(fileName: string): string {
+  return `V${fileName.slice(1)}`;
+}
+
+function toFlywayUndoName(fileName: string): string {
+  return `U${fileName.slice(1)}`;
+}
+
+function assertForwardFiles(
+  fileNames: string[],
+  isRollbackName: (fileName: string) => boolean,
+  toForwardName: (fileName: string) => string,
+): void {
+  const names = new Set(fileNames);
+  const orphan = fileNames.find((name) => {
+    if (!isRollbackName(name)) return false;
+    return !names.has(toForwardName(name));
+  });
+  if (!orphan) return;
+  throw new Error(
+    `Migration ${orphan} has no matching ${toForwardName(orphan)} file`,
+  );
+}
+
+function isRepeatableFile(entry: Dirent): boolean {
+  if (!entry.isFile()) return false;
+  return REPEATABLE_FILE_PATTERN.test(entry.name);
+}
+
 async function readEntries(migrationsDir: string): EntriesResult {
   try {
     return await readdir(migrationsDir, { withFileTypes: true });
@@ -103,24 +271,114 @@ async function readEntries(migrationsDir: string): EntriesResult {
   }
 }
 
+async function discoverDirectories(migrationsDir: string): MigrationListResult {
+  const entries = await readEntries(migrationsDir);
+  const validDirectories = entries.filter(isMigrationDirectory);
+  return Promise.all(
+    validDirectories.map((entry) => mapMigration(migrationsDir, entry)),
+  );
+}
+
+async function discoverFlatFiles(migrationsDir: string): MigrationListResult {
+  const entries = await readEntries(migrationsDir);
+  const fileNames = entries
+    .filter(isFlatMigrationFile)
+    .map((entry) => entry.name);
+  assertForwardFiles(fileNames, isFlatRollbackName, toFlatForwardName);
+  const upFiles = fileNames.filter((name) => !isFlatRollbackName(name));
+  return Promise.all(
+    upFiles.map((fileName) => mapFlatMigration(migrationsDir, fileName)),
+  );
+}
+
+async function discoverFlywayFiles(migrationsDir: string): MigrationListResult {
+  const entries = await readEntries(migrationsDir);
+  const fileNames = entries
+    .filter(isFlywayMigrationFile)
+    .map((entry) => entry.name);
+  assertForwardFiles(fileNames, isFlywayUndoName, toFlywayForwardName);
+  const versionedFiles = fileNames.filter((name) => !isFlywayUndoName(name));
+  return Promise.all(
+    versionedFiles.map((fileName) => {
+      return mapFlywayMigration(migrationsDir, fileName);
+    }),
+  );
+}
+
+function compareIds(
+  left: DiscoveredMigration,
+  right: DiscoveredMigration,
+): number {
+  return left.id.localeCompare(right.id);
+}
+
+function compareVersions(
+  left: DiscoveredMigration,
+  right: DiscoveredMigration,
+): number {
+  return left.id.localeCompare(right.id, undefined, { numeric: true });
+}
+
+function toVersionParts(id: string): number[] {
+  return id.split(".").map(Number);
+}
+
+function compareDottedVersions(
+  left: DiscoveredMigration,
+  right: DiscoveredMigration,
+): number {
+  const leftParts = toVersionParts(left.id);
+  const rightParts = toVersionParts(right.id);
+  const length = Math.max(leftParts.length, rightParts.length);
+  const differences = Array.from({ length }, (_, index) => {
+    return (leftParts[index] ?? 0) - (rightParts[index] ?? 0);
+  });
+  return differences.find((difference) => difference !== 0) ?? 0;
+}
+
+function compareDirectoryIds(
+  left: DiscoveredMigration,
+  right: DiscoveredMigration,
+): number {
+  return compareDottedVersions(left, right) || compareIds(left, right);
+}
+
+const LAYOUT_STRATEGIES: Record<MigrationLayout, LayoutStrategy> = {
+  prisma: { discover: discoverDirectories, compare: compareDirectoryIds },
+  "golang-migrate": { discover: discoverFlatFiles, compare: compareVersions },
+  flyway: { discover: discoverFlywayFiles, compare: compareDottedVersions },
+};
+
+export function isMigrationLayout(value: unknown): value is MigrationLayout {
+  return MIGRATION_LAYOUTS.includes(value as MigrationLayout);
+}
+
 export class MigrationRepository {
-  constructor(private readonly migrationsDir: string) {}
+  constructor(
+    readonly migrationsDir: string,
+    readonly layout: MigrationLayout = "prisma",
+  ) {}
 
   async all(): MigrationListResult {
-    const entries = await readEntries(this.migrationsDir);
-    const validDirectories = entries.filter(isMigrationDirectory);
-    const migrations = await Promise.all(
-      validDirectories.map((entry) => mapMigration(this.migrationsDir, entry)),
-    );
-    const sorted = migrations.toSorted((left, right) => {
-      return left.id.localeCompare(right.id);
-    });
+    const strategy = LAYOUT_STRATEGIES[this.layout];
+    const migrations = await strategy.discover(this.migrationsDir);
+    const sorted = migrations.toSorted(strategy.compare);
     const duplicateId = getDuplicateId(sorted);
     if (duplicateId) throw new Error(`Duplicate migration ID: ${duplicateId}`);
     logger.debug(
       `Loaded ${sorted.length} migrations from ${this.migrationsDir}`,
     );
-    return sorted;
+    return orderMigrations(sorted);
+  }
+
+  async repeatables(): MigrationListResult {
+    const repeatableDir = join(this.migrationsDir, REPEATABLE_DIRECTORY);
+    const entries = await readEntries(repeatableDir);
+    const files = entries.filter(isRepeatableFile);
+    const migrations = await Promise.all(
+      files.map((entry) => mapRepeatableMigration(repeatableDir, entry)),
+    );
+    return migrations.toSorted(compareIds);
   }
 
   async find(id: string): OptionalMigrationResult {
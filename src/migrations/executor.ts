@@ -1,34 +1,193 @@
 import {
+  createAtomicBatchFailedError,
   createInvalidMigrationError,
+  createInvariantFailedError,
+  createStatementFailedError,
   createTransactionFailedError,
 } from "../errors";
 import { logger } from "../logger";
-import type { PrismaClient, PrismaMigrationClient } from "../types";
-import { generateChecksum } from "../utils";
+import type {
+  MigrationFile,
+  PrismaClient,
+  PrismaMigrationClient,
+} from "../types";
+import {
+  formatMigration,
+  generateChecksum,
+  generateStatementsChecksum,
+} from "../utils";
+import {
+  buildSessionSettings,
+  hasSessionSettings,
+  hasTransactionalDdl,
+  type DatabaseProvider,
+  type SessionSettings,
+} from "./dialect";
 import type { DiscoveredMigration } from "./discovery";
-import { MigrationHistory } from "./history";
-import { loadMigrationStatements } from "./sql";
+import { appendAppliedChecksum, MigrationHistory } from "./history";
+import { loadMigrationFunction } from "./module";
+import {
+  loadConditionQuery,
+  loadInvariantStatements,
+  loadMigrationScript,
+  type MigrationMetadata,
+} from "./sql";
 
 type Direction = "up" | "down";
+type InvariantFile = "check.sql" | "verify.sql";
 type VoidResult = Promise<void>;
-type StatementsResult = Promise<string[]>;
+type BooleanResult = Promise<boolean>;
+type OutcomeResult = Promise<RunOutcome>;
+type OutcomesResult = Promise<RunOutcome[]>;
+type StatementListener = (completed: number) => VoidResult;
+type MigrationStep = (
+  tx: PrismaMigrationClient,
+  startStep: number,
+  afterStatement: StatementListener,
+) => VoidResult;
+type PlanResult = Promise<MigrationPlan>;
+type GuardsResult = Promise<{
+  checks: string[];
+  verifications: string[];
+  condition?: string;
+}>;
+type RunResult = Promise<MigrationRun>;
+type StepResult = Promise<{
+  step: MigrationStep;
+  stepCount: number;
+  statements: string[];
+  metadata: MigrationMetadata;
+}>;
 
-async function loadStatements(
-  migration: DiscoveredMigration,
-  direction: Direction,
-): StatementsResult {
+export interface MigrationProgress {
+  migration: MigrationFile;
+  direction: Direction;
+  statement: number;
+  statementCount: number;
+}
+
+export type ProgressListener = (progress: MigrationProgress) => void;
+export type RunOutcome = "completed" | "skipped";
+
+export interface RunOptions {
+  startStep?: number;
+  recheck?: boolean;
+}
+
+interface MigrationPlan {
+  step: MigrationStep;
+  stepCount: number;
+  statements: string[];
+  transaction: boolean;
+  settings: SessionSettings;
+  checks: string[];
+  verifications: string[];
+  condition?: string;
+}
+
+interface MigrationRun {
+  migration: DiscoveredMigration;
+  direction: Direction;
+  plan: MigrationPlan;
+  checksum: string;
+  startStep: number;
+  recheck: boolean;
+}
+
+class StatementError extends Error {
+  constructor(
+    public readonly statementIndex: number,
+    public readonly statementCount: number,
+    public readonly statement: string,
+    public readonly cause: Error,
+  ) {
+    super(cause.message);
+    this.name = "StatementError";
+  }
+}
+
+class InvariantError extends Error {
+  constructor(
+    public readonly fileName: InvariantFile,
+    public readonly statement: string,
+    public readonly rowCount: number,
+  ) {
+    super(`${fileName} returned ${rowCount} row(s)`);
+    this.name = "InvariantError";
+  }
+}
+
+function toError(error: unknown): Error {
+  if (error instanceof Error) return error;
+  return new Error(String(error));
+}
+
+async function executeStatement(
+  tx: PrismaMigrationClient,
+  statements: string[],
+  index: number,
+): VoidResult {
+  const statement = statements[index];
   try {
-    return await loadMigrationStatements(migration, direction);
+    await tx.$executeRawUnsafe(statement);
   } catch (error) {
-    const reason = error instanceof Error ? error.message : String(error);
-    const migrationName = `${migration.id}_${migration.name}`;
-    throw createInvalidMigrationError(migrationName, reason);
+    const cause = toError(error);
+    throw new StatementError(index, statements.length, statement, cause);
   }
 }
 
 async function executeStatements(
   tx: PrismaMigrationClient,
   statements: string[],
+  startStep: number,
+  afterStatement: StatementListener,
+): VoidResult {
+  await statements.slice(startStep).reduce(async (previous, _, offset) => {
+    await previous;
+    const index = startStep + offset;
+    await executeStatement(tx, statements, index);
+    await afterStatement(index + 1);
+  }, Promise.resolve());
+}
+
+async function assertInvariants(
+  tx: PrismaMigrationClient,
+  statements: string[],
+  fileName: InvariantFile,
+): VoidResult {
+  await statements.reduce(async (previous, statement) => {
+    await previous;
+    const rows = await tx.$queryRawUnsafe<unknown[]>(statement);
+    if (rows.length === 0) return;
+    throw new InvariantError(fileName, statement, rows.length);
+  }, Promise.resolve());
+}
+
+function isTrueResult(value: unknown): boolean {
+  if (typeof value === "string") {
+    return ["t", "true", "1"].includes(value.toLowerCase());
+  }
+  return value === true || value === 1 || value === BigInt(1);
+}
+
+async function evaluateCondition(
+  tx: PrismaMigrationClient,
+  query: string,
+): BooleanResult {
+  const rows = await tx.$queryRawUnsafe<Record<string, unknown>[]>(query);
+  if (rows.length === 0) return false;
+  const [value] = Object.values(rows[0]);
+  return isTrueResult(value);
+}
+
+function isCheckFailure(error: unknown): boolean {
+  if (!(error instanceof InvariantError)) return false;
+  return error.fileName === "check.sql";
+}
+
+async function executeSettings(
+  tx: PrismaMigrationClient,
+  statements: string[],
 ): VoidResult {
   await statements.reduce(async (previous, statement) => {
     await previous;
@@ -36,48 +195,464 @@ async function executeStatements(
   }, Promise.resolve());
 }
 
+async function resetSettings(
+  tx: PrismaMigrationClient,
+  statements: string[],
+): VoidResult {
+  try {
+    await executeSettings(tx, statements);
+  } catch (error) {
+    const reason = error instanceof Error ? error.message : String(error);
+    logger.warn(`Failed to reset migration session settings: ${reason}`);
+  }
+}
+
+function assertSettingsSupported(metadata: MigrationMetadata): void {
+  const hasUnsupportedSettings =
+    !metadata.transaction && hasSessionSettings(metadata);
+  if (!hasUnsupportedSettings) return;
+  throw new Error(
+    "Session setting directives require a transaction; remove transaction=false or the setting directives",
+  );
+}
+
+function assertVerificationSupported(
+  metadata: MigrationMetadata,
+  verifications: string[],
+): void {
+  const hasUnsupportedVerification =
+    !metadata.transaction && verifications.length > 0;
+  if (!hasUnsupportedVerification) return;
+  throw new Error(
+    "verify.sql requires a transaction so a failed verification can roll back; remove transaction=false or verify.sql",
+  );
+}
+
+async function loadGuards(
+  migration: DiscoveredMigration,
+  direction: Direction,
+): GuardsResult {
+  if (direction === "down") return { checks: [], verifications: [] };
+  const [checks, verifications, condition] = await Promise.all([
+    loadInvariantStatements(migration.checkPath),
+    loadInvariantStatements(migration.verifyPath),
+    loadConditionQuery(migration.conditionPath),
+  ]);
+  return { checks, verifications, condition };
+}
+
+async function loadMigrationStep(
+  migration: DiscoveredMigration,
+  direction: Direction,
+): StepResult {
+  if (migration.format === "module") {
+    const fn = await loadMigrationFunction(migration, direction);
+    const step: MigrationStep = async (tx, startStep, afterStatement) => {
+      if (startStep > 0) return;
+      await fn(tx);
+      await afterStatement(1);
+    };
+    const metadata = migration.metadata;
+    return { step, stepCount: 1, statements: [], metadata };
+  }
+  const script = await loadMigrationScript(migration, direction);
+  const step: MigrationStep = (tx, startStep, afterStatement) => {
+    return executeStatements(tx, script.statements, startStep, afterStatement);
+  };
+  const { statements, metadata } = script;
+  return { step, stepCount: statements.length, statements, metadata };
+}
+
+async function loadMigrationPlan(
+  migration: DiscoveredMigration,
+  direction: Direction,
+  provider: DatabaseProvider | undefined,
+): PlanResult {
+  const { step, stepCount, statements, metadata } = await loadMigrationStep(
+    migration,
+    direction,
+  );
+  const { checks, verifications, condition } = await loadGuards(
+    migration,
+    direction,
+  );
+  assertSettingsSupported(metadata);
+  assertVerificationSupported(metadata, verifications);
+  const settings = buildSessionSettings(provider, metadata);
+  return {
+    step,
+    stepCount,
+    statements,
+    transaction: metadata.transaction,
+    settings,
+    checks,
+    verifications,
+    condition,
+  };
+}
+
+async function loadPlan(
+  migration: DiscoveredMigration,
+  direction: Direction,
+  provider: DatabaseProvider | undefined,
+): PlanResult {
+  try {
+    return await loadMigrationPlan(migration, direction, provider);
+  } catch (error) {
+    const reason = error instanceof Error ? error.message : String(error);
+    const migrationName = formatMigration(migration);
+    throw createInvalidMigrationError(migrationName, reason);
+  }
+}
+
+function describeFailure(error: unknown): string {
+  const message = toError(error).message;
+  if (error instanceof InvariantError) {
+    return `${message}\nQuery: ${error.statement}`;
+  }
+  if (!(error instanceof StatementError)) return message;
+  const position = `${error.statementIndex + 1} of ${error.statementCount}`;
+  return `${message}\nFailed statement ${position}: ${error.statement}`;
+}
+
+function describeRunFailure(
+  run: MigrationRun,
+  error: unknown,
+  appliedSteps: number,
+): string {
+  const logs = describeFailure(error);
+  const applied = run.plan.statements.slice(0, appliedSteps);
+  if (applied.length === 0) return logs;
+  return appendAppliedChecksum(logs, generateStatementsChecksum(applied));
+}
+
+function toStatementFailedError(migrationName: string, error: unknown) {
+  if (!(error instanceof StatementError)) return toError(error);
+  return createStatementFailedError(
+    migrationName,
+    error.statementIndex + 1,
+    error.statementCount,
+    error.statement,
+    error.cause,
+  );
+}
+
+function toMigrationError(run: MigrationRun, error: unknown): Error {
+  const migrationName = formatMigration(run.migration);
+  if (error instanceof InvariantError) {
+    return createInvariantFailedError(
+      migrationName,
+      error.fileName,
+      error.statement,
+      error.rowCount,
+    );
+  }
+  if (!run.plan.transaction)
+    return toStatementFailedError(migrationName, error);
+  return createTransactionFailedError(migrationName, toError(error));
+}
+
+function assertAtomicSupported(
+  provider: DatabaseProvider | undefined,
+  runs: MigrationRun[],
+): void {
+  if (!provider) {
+    throw new Error(
+      'Atomic mode needs a database provider; set the "provider" option',
+    );
+  }
+  if (!hasTransactionalDdl(provider)) {
+    throw new Error(
+      `Atomic mode is not supported on ${provider}: schema changes commit outside the transaction`,
+    );
+  }
+  const isolated = runs.find((run) => !run.plan.transaction);
+  if (!isolated) return;
+  throw new Error(
+    `Atomic mode cannot include ${formatMigration(isolated.migration)}: it uses transaction=false`,
+  );
+}
+
+function commitsEachStatement(provider: DatabaseProvider | undefined): boolean {
+  return provider !== undefined && !hasTransactionalDdl(provider);
+}
+
+function countCommittedSteps(
+  run: MigrationRun,
+  provider: DatabaseProvider | undefined,
+  error: unknown,
+): number {
+  if (!commitsEachStatement(provider)) return 0;
+  if (error instanceof StatementError) return error.statementIndex;
+  const isVerifyFailure =
+    error instanceof InvariantError && error.fileName === "verify.sql";
+  if (isVerifyFailure) return run.plan.stepCount;
+  return run.startStep;
+}
+
+function readStartStep(
+  plan: MigrationPlan,
+  options: RunOptions,
+  provider: DatabaseProvider | undefined,
+): number {
+  const canResume = !plan.transaction || commitsEachStatement(provider);
+  if (!canResume) return 0;
+  return Math.min(options.startStep ?? 0, plan.stepCount);
+}
+
 export class MigrationExecutor {
   constructor(
     private readonly prisma: PrismaClient,
     private readonly history: MigrationHistory,
+    private readonly provider?: DatabaseProvider,
+    private readonly onProgress?: ProgressListener,
   ) {}
 
-  async run(migration: DiscoveredMigration, direction: Direction): VoidResult {
-    const statements = await loadStatements(migration, direction);
+  private async prepare(
+    migration: DiscoveredMigration,
+    direction: Direction,
+    options: RunOptions = {},
+  ): RunResult {
+    const plan = await loadPlan(migration, direction, this.provider);
     const checksum = await generateChecksum(migration.path);
+    const startStep = readStartStep(plan, options, this.provider);
+    const recheck = options.recheck ?? false;
+    return { migration, direction, plan, checksum, startStep, recheck };
+  }
+
+  async run(
+    migration: DiscoveredMigration,
+    direction: Direction,
+    options: RunOptions = {},
+  ): OutcomeResult {
+    const run = await this.prepare(migration, direction, options);
+    const { plan } = run;
+    const shouldRun = await this.meetsCondition(this.prisma, run);
+    if (!shouldRun) return this.skip(this.prisma, run);
     try {
-      await this.runTransaction(migration, direction, statements, checksum);
+      await this.runPlan(run);
     } catch (error) {
-      const cause = error instanceof Error ? error : new Error(String(error));
-      const migrationName = `${migration.id}_${migration.name}`;
-      throw createTransactionFailedError(migrationName, cause);
+      const shouldRecord =
+        direction === "up" && plan.transaction && !isCheckFailure(error);
+      if (shouldRecord) await this.recordTransactionFailure(run, error);
+      throw toMigrationError(run, error);
+    }
+    return "completed";
+  }
+
+  private async meetsCondition(
+    tx: PrismaMigrationClient,
+    run: MigrationRun,
+  ): BooleanResult {
+    const { condition } = run.plan;
+    const hasCondition = condition !== undefined && run.startStep === 0;
+    if (!hasCondition) return true;
+    return evaluateCondition(tx, condition);
+  }
+
+  private async skip(
+    tx: PrismaMigrationClient,
+    run: MigrationRun,
+  ): OutcomeResult {
+    const { migration, checksum } = run;
+    if (!run.recheck) {
+      await this.history.recordSkipped(tx, migration, checksum);
     }
+    const migrationName = formatMigration(migration);
+    logger.info(`Skipped ${migrationName}: condition.sql returned false`);
+    return "skipped";
+  }
+
+  private runPlan(run: MigrationRun): VoidResult {
+    if (run.plan.transaction) return this.runTransaction(run);
+    if (run.direction === "up") return this.runTrackedSteps(run);
+    return this.runWithoutTransaction(run);
   }
 
-  private async runTransaction(
+  private async recordFailure(
     migration: DiscoveredMigration,
-    direction: Direction,
-    statements: string[],
-    checksum: string,
+    write: () => VoidResult,
+  ): VoidResult {
+    try {
+      await write();
+    } catch (recordError) {
+      const reason = toError(recordError).message;
+      const migrationName = formatMigration(migration);
+      logger.warn(`Failed to record failure of ${migrationName}: ${reason}`);
+    }
+  }
+
+  private recordTransactionFailure(
+    run: MigrationRun,
+    error: unknown,
   ): VoidResult {
-    await this.prisma.$transaction(async (tx) => {
-      await executeStatements(tx, statements);
-      await this.updateHistory(tx, migration, direction, checksum);
+    const appliedSteps = countCommittedSteps(run, this.provider, error);
+    const logs = describeRunFailure(run, error, appliedSteps);
+    return this.recordFailure(run.migration, () => {
+      return this.history.recordFailed(
+        run.migration,
+        run.checksum,
+        logs,
+        appliedSteps,
+      );
+    });
+  }
+
+  private reportProgress(run: MigrationRun, completed: number): void {
+    this.onProgress?.({
+      migration: run.migration,
+      direction: run.direction,
+      statement: completed,
+      statementCount: run.plan.stepCount,
     });
-    const migrationName = `${migration.id}_${migration.name}`;
-    const action = direction === "up" ? "Applied" : "Rolled back";
-    logger.info(`${action} ${migrationName}`);
   }
 
-  private updateHistory(
+  async runAtomic(
+    migrations: DiscoveredMigration[],
+    recheckIds = new Set<string>(),
+  ): OutcomesResult {
+    const runs = await Promise.all(
+      migrations.map((migration) => {
+        const recheck = recheckIds.has(migration.id);
+        return this.prepare(migration, "up", { recheck });
+      }),
+    );
+    assertAtomicSupported(this.provider, runs);
+    let current: MigrationRun | undefined;
+    const outcomes: RunOutcome[] = [];
+    try {
+      await this.prisma.$transaction(async (tx) => {
+        await runs.reduce(async (previous, run) => {
+          await previous;
+          current = run;
+          const shouldRun = await this.meetsCondition(tx, run);
+          if (!shouldRun) {
+            outcomes.push(await this.skip(tx, run));
+            return;
+          }
+          await this.applyInTransaction(tx, run);
+          outcomes.push("completed");
+        }, Promise.resolve());
+      });
+    } catch (error) {
+      if (!current) throw error;
+      const migrationName = formatMigration(current.migration);
+      throw createAtomicBatchFailedError(
+        migrationName,
+        runs.length,
+        toError(error),
+      );
+    }
+    runs.forEach((run, index) => {
+      if (outcomes[index] === "completed") {
+        this.logCompleted(run.migration, "up");
+      }
+    });
+    return outcomes;
+  }
+
+  private async applyInTransaction(
     tx: PrismaMigrationClient,
+    run: MigrationRun,
+  ): VoidResult {
+    const { plan, startStep } = run;
+    await executeSettings(tx, plan.settings.apply);
+    try {
+      if (startStep === 0) {
+        await assertInvariants(tx, plan.checks, "check.sql");
+      }
+      await plan.step(tx, startStep, async (completed) => {
+        this.reportProgress(run, completed);
+      });
+      await assertInvariants(tx, plan.verifications, "verify.sql");
+    } finally {
+      await resetSettings(tx, plan.settings.reset);
+    }
+    await this.updateHistory(tx, run);
+  }
+
+  private async runTransaction(run: MigrationRun): VoidResult {
+    if (run.startStep > 0) {
+      const migrationName = formatMigration(run.migration);
+      logger.info(
+        `Resuming ${migrationName} at statement ${run.startStep + 1}`,
+      );
+    }
+    await this.prisma.$transaction((tx) => this.applyInTransaction(tx, run));
+    this.logCompleted(run.migration, run.direction);
+  }
+
+  private async runTrackedSteps(run: MigrationRun): VoidResult {
+    const { migration, plan, checksum, startStep } = run;
+    const migrationName = formatMigration(migration);
+    logger.debug(`Running ${migrationName} without a transaction`);
+    if (startStep > 0) {
+      logger.info(`Resuming ${migrationName} at statement ${startStep + 1}`);
+    }
+    if (startStep === 0) {
+      await assertInvariants(this.prisma, plan.checks, "check.sql");
+    }
+    if (run.recheck) {
+      await this.history.recordRolledBack(this.prisma, migration);
+    }
+    const rowId = await this.history.recordStarted(
+      migration,
+      checksum,
+      startStep,
+    );
+    let completed = startStep;
+    try {
+      await plan.step(this.prisma, startStep, async (count) => {
+        completed = count;
+        await this.history.recordProgress(rowId, count);
+        this.reportProgress(run, count);
+      });
+    } catch (error) {
+      const logs = describeRunFailure(run, error, completed);
+      await this.recordFailure(migration, () => {
+        return this.history.recordStepFailed(rowId, logs, completed);
+      });
+      throw error;
+    }
+    await this.history.recordFinished(rowId, completed);
+    this.logCompleted(migration, "up");
+  }
+
+  private async runWithoutTransaction(run: MigrationRun): VoidResult {
+    const { migration, direction, plan } = run;
+    const migrationName = formatMigration(migration);
+    logger.debug(`Running ${migrationName} without a transaction`);
+    await plan.step(this.prisma, 0, async (completed) => {
+      this.reportProgress(run, completed);
+    });
+    await this.updateHistory(this.prisma, run);
+    this.logCompleted(migration, direction);
+  }
+
+  private logCompleted(
     migration: DiscoveredMigration,
     direction: Direction,
-    checksum: string,
+  ): void {
+    const migrationName = formatMigration(migration);
+    const action = direction === "up" ? "Applied" : "Rolled back";
+    logger.info(`${action} ${migrationName}`);
+  }
+
+  private async updateHistory(
+    tx: PrismaMigrationClient,
+    run: MigrationRun,
   ): VoidResult {
+    const { migration, direction, checksum, plan } = run;
     if (direction === "up") {
-      return this.history.recordApplied(tx, migration, checksum);
+      if (run.recheck) await this.history.recordRolledBack(tx, migration);
+      return this.history.recordApplied(
+        tx,
+        migration,
+        checksum,
+        plan.stepCount,
+      );
     }
-    return this.history.recordRolledBack(tx, migration);
+    const squashes = migration.metadata.squashes;
+    return this.history.recordRolledBack(tx, migration, squashes);
   }
 }
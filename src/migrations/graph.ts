@@ -0,0 +1,115 @@
+import type { DiscoveredMigration } from "./discovery";
+import { parseMigrationDirectoryName } from "./history";
+
+type MigrationIndex = Map<string, DiscoveredMigration>;
+type SquashIndex = Map<string, string>;
+type DependencyReader = (migration: DiscoveredMigration) => string[];
+
+export function indexSquashedMigrations(
+  migrations: DiscoveredMigration[],
+): SquashIndex {
+  const entries = migrations.flatMap((migration) => {
+    const squashes = migration.metadata.squashes ?? [];
+    return squashes.map((name) => {
+      const squashedId = parseMigrationDirectoryName(name)?.id ?? name;
+      const entry: [string, string] = [squashedId, migration.id];
+      return entry;
+    });
+  });
+  return new Map(entries);
+}
+
+function createDependencyReader(
+  migrations: DiscoveredMigration[],
+): DependencyReader {
+  const squashedBy = indexSquashedMigrations(migrations);
+  return (migration: DiscoveredMigration): string[] => {
+    const dependencies = migration.metadata.dependsOn ?? [];
+    return dependencies.map((id) => squashedBy.get(id) ?? id);
+  };
+}
+
+function indexMigrations(migrations: DiscoveredMigration[]): MigrationIndex {
+  return new Map(migrations.map((migration) => [migration.id, migration]));
+}
+
+function assertKnownDependencies(
+  migrations: DiscoveredMigration[],
+  migrationsById: MigrationIndex,
+  getDependencies: DependencyReader,
+): void {
+  migrations.forEach((migration) => {
+    const unknownId = getDependencies(migration).find((id) => {
+      return !migrationsById.has(id);
+    });
+    if (!unknownId) return;
+    throw new Error(
+      `Migration ${migration.id} depends on unknown migration ${unknownId}`,
+    );
+  });
+}
+
+function findCycle(
+  remaining: DiscoveredMigration[],
+  migrationsById: MigrationIndex,
+  getDependencies: DependencyReader,
+): string[] {
+  const remainingIds = new Set(remaining.map((migration) => migration.id));
+  const path: string[] = [];
+  let current = remaining[0];
+  while (!path.includes(current.id)) {
+    path.push(current.id);
+    const nextId = getDependencies(current).find((id) => remainingIds.has(id));
+    current = migrationsById.get(nextId!)!;
+  }
+  const cycle = path.slice(path.indexOf(current.id));
+  return [...cycle, current.id];
+}
+
+export function orderMigrations(
+  migrations: DiscoveredMigration[],
+): DiscoveredMigration[] {
+  const migrationsById = indexMigrations(migrations);
+  const getDependencies = createDependencyReader(migrations);
+  assertKnownDependencies(migrations, migrationsById, getDependencies);
+  const ordered: DiscoveredMigration[] = [];
+  const placed = new Set<string>();
+  let remaining = migrations;
+  while (remaining.length > 0) {
+    const next = remaining.find((migration) => {
+      return getDependencies(migration).every((id) => placed.has(id));
+    });
+    if (!next) {
+      const cycle = findCycle(remaining, migrationsById, getDependencies).join(
+        " -> ",
+      );
+      throw new Error(`Circular migration dependency: ${cycle}`);
+    }
+    ordered.push(next);
+    placed.add(next.id);
+    remaining = remaining.filter((migration) => migration !== next);
+  }
+  return ordered;
+}
+
+export function assertNoAppliedDependents(
+  all: DiscoveredMigration[],
+  appliedIds: string[],
+  rollbackIds: string[],
+): void {
+  const migrationsById = indexMigrations(all);
+  const getDependencies = createDependencyReader(all);
+  const rollingBack = new Set(rollbackIds);
+  const remainingIds = appliedIds.filter((id) => !rollingBack.has(id));
+  remainingIds.forEach((id) => {
+    const migration = migrationsById.get(id);
+    if (!migration) return;
+    const dependencyId = getDependencies(migration).find((dependency) => {
+      return rollingBack.has(dependency);
+    });
+    if (!dependencyId) return;
+    throw new Error(
+      `Cannot roll back ${dependencyId}: applied migration ${id} depends on it`,
+    );
+  });
+}
@@ -4,6 +4,7 @@ import type {
   PrismaClient,
   PrismaMigrationClient,
 } from "../types";
+import { formatMigration } from "../utils";
 
 export interface AppliedMigrationRow {
   id: string;
@@ -12,10 +13,17 @@ export interface AppliedMigrationRow {
   finished_at?: Date | string | null;
   rolled_back_at?: Date | string | null;
   logs?: string | null;
+  started_at?: Date | string | null;
+  applied_steps_count?: number;
 }
 
+export const REPEATABLE_ID_PREFIX = "R__";
+export const SKIPPED_LOGS = "Skipped: condition.sql returned false";
+const APPLIED_CHECKSUM_LABEL = "Applied statements checksum: ";
+
 type VoidResult = Promise<void>;
 type RowsResult = Promise<AppliedMigrationRow[]>;
+type StringResult = Promise<string>;
 
 export function isAppliedMigration(row: AppliedMigrationRow): boolean {
   const hasFinished = row.finished_at !== null;
@@ -29,11 +37,32 @@ export function isFailedMigration(row: AppliedMigrationRow): boolean {
   return hasFailed && isUnresolved;
 }
 
+export function isSkippedMigrationRow(row: AppliedMigrationRow): boolean {
+  return isAppliedMigration(row) && row.logs === SKIPPED_LOGS;
+}
+
+export function appendAppliedChecksum(logs: string, checksum: string): string {
+  return `${logs}\n${APPLIED_CHECKSUM_LABEL}${checksum}`;
+}
+
+export function readAppliedChecksum(
+  row: AppliedMigrationRow,
+): string | undefined {
+  const lastLine = (row.logs ?? "").split("\n").at(-1) ?? "";
+  if (!lastLine.startsWith(APPLIED_CHECKSUM_LABEL)) return undefined;
+  return lastLine.slice(APPLIED_CHECKSUM_LABEL.length);
+}
+
+export function isRepeatableMigrationRow(row: AppliedMigrationRow): boolean {
+  const migrationName = row.migration_name ?? "";
+  return migrationName.startsWith(REPEATABLE_ID_PREFIX);
+}
+
 export function parseMigrationDirectoryName(
   name: string | undefined,
 ): { id: string; name: string } | null {
   if (!name) return null;
-  const match = name.match(/^(\d+)_(.+)$/);
+  const match = name.match(/^(\d+(?:\.\d+)*)_(.+)$/);
   if (!match) return null;
   const id = match[1];
   const migrationName = match[2];
@@ -53,6 +82,17 @@ export function getAppliedMigrationName(row: AppliedMigrationRow): string {
   return row.migration_name ?? row.id;
 }
 
+export function toRecordedMigration(row: AppliedMigrationRow): MigrationFile {
+  const migrationName = getAppliedMigrationName(row);
+  if (isRepeatableMigrationRow(row)) {
+    const name = migrationName.slice(REPEATABLE_ID_PREFIX.length);
+    return { id: migrationName, name, path: "", kind: "repeatable" };
+  }
+  const parsedName = parseMigrationDirectoryName(migrationName);
+  const id = getAppliedMigrationId(row);
+  return { id, name: parsedName?.name ?? migrationName, path: "" };
+}
+
 export class MigrationHistory {
   private ensurePromise: VoidResult | null = null;
 
@@ -86,9 +126,9 @@ export class MigrationHistory {
   async rows(): RowsResult {
     await this.ensureTable();
     return this.prisma.$queryRaw<AppliedMigrationRow[]>`
-      SELECT id, checksum, migration_name, finished_at, rolled_back_at, logs
+      SELECT id, checksum, migration_name, finished_at, rolled_back_at, logs, started_at, applied_steps_count
       FROM _prisma_migrations
-      ORDER BY started_at ASC
+      ORDER BY started_at ASC, migration_name ASC
     `;
   }
 
@@ -104,31 +144,135 @@ export class MigrationHistory {
     throw new Error(`Unresolved failed migrations: ${names}`);
   }
 
+  private async retirePreviousRun(
+    tx: PrismaMigrationClient,
+    migration: MigrationFile,
+  ): VoidResult {
+    if (migration.kind !== "repeatable") return;
+    const migrationName = formatMigration(migration);
+    await tx.$executeRaw`
+      UPDATE _prisma_migrations
+      SET rolled_back_at = CURRENT_TIMESTAMP
+      WHERE migration_name = ${migrationName}
+        AND finished_at IS NOT NULL
+        AND rolled_back_at IS NULL
+    `;
+  }
+
   async recordApplied(
     tx: PrismaMigrationClient,
     migration: MigrationFile,
     checksum: string,
+    appliedStepsCount = 1,
+  ): VoidResult {
+    await this.retirePreviousRun(tx, migration);
+    const migrationName = formatMigration(migration);
+    const id = randomUUID();
+    await tx.$executeRaw`
+      INSERT INTO _prisma_migrations
+        (id, checksum, finished_at, migration_name, logs, rolled_back_at, started_at, applied_steps_count)
+      VALUES
+        (${id}, ${checksum}, CURRENT_TIMESTAMP, ${migrationName}, NULL, NULL, CURRENT_TIMESTAMP, ${appliedStepsCount})
+    `;
+  }
+
+  async recordSkipped(
+    tx: PrismaMigrationClient,
+    migration: MigrationFile,
+    checksum: string,
   ): VoidResult {
-    const migrationName = `${migration.id}_${migration.name}`;
+    await this.retirePreviousRun(tx, migration);
+    const migrationName = formatMigration(migration);
     const id = randomUUID();
     await tx.$executeRaw`
       INSERT INTO _prisma_migrations
         (id, checksum, finished_at, migration_name, logs, rolled_back_at, started_at, applied_steps_count)
       VALUES
-        (${id}, ${checksum}, CURRENT_TIMESTAMP, ${migrationName}, NULL, NULL, CURRENT_TIMESTAMP, 1)
+        (${id}, ${checksum}, CURRENT_TIMESTAMP, ${migrationName}, ${SKIPPED_LOGS}, NULL, CURRENT_TIMESTAMP, 0)
+    `;
+  }
+
+  async recordStarted(
+    migration: MigrationFile,
+    checksum: string,
+    appliedStepsCount: number,
+  ): StringResult {
+    await this.retirePreviousRun(this.prisma, migration);
+    const migrationName = formatMigration(migration);
+    const id = randomUUID();
+    await this.prisma.$executeRaw`
+      INSERT INTO _prisma_migrations
+        (id, checksum, finished_at, migration_name, logs, rolled_back_at, started_at, applied_steps_count)
+      VALUES
+        (${id}, ${checksum}, NULL, ${migrationName}, NULL, NULL, CURRENT_TIMESTAMP, ${appliedStepsCount})
+    `;
+    return id;
+  }
+
+  async recordProgress(rowId: string, appliedStepsCount: number): VoidResult {
+    await this.prisma.$executeRaw`
+      UPDATE _prisma_migrations
+      SET applied_steps_count = ${appliedStepsCount}
+      WHERE id = ${rowId}
+    `;
+  }
+
+  async recordFinished(rowId: string, appliedStepsCount: number): VoidResult {
+    await this.prisma.$executeRaw`
+      UPDATE _prisma_migrations
+      SET finished_at = CURRENT_TIMESTAMP, applied_steps_count = ${appliedStepsCount}
+      WHERE id = ${rowId}
+    `;
+  }
+
+  async recordStepFailed(
+    rowId: string,
+    logs: string,
+    appliedStepsCount: number,
+  ): VoidResult {
+    await this.prisma.$executeRaw`
+      UPDATE _prisma_migrations
+      SET logs = ${logs}, applied_steps_count = ${appliedStepsCount}
+      WHERE id = ${rowId}
+    `;
+  }
+
+  async recordFailed(
+    migration: MigrationFile,
+    checksum: string,
+    logs: string,
+    appliedStepsCount: number,
+  ): VoidResult {
+    const migrationName = formatMigration(migration);
+    const id = randomUUID();
+    await this.prisma.$executeRaw`
+      INSERT INTO _prisma_migrations
+        (id, checksum, finished_at, migration_name, logs, rolled_back_at, started_at, applied_steps_count)
+      VALUES
+        (${id}, ${checksum}, NULL, ${migrationName}, ${logs}, NULL, CURRENT_TIMESTAMP, ${appliedStepsCount})
     `;
   }
 
   async recordRolledBack(
     tx: PrismaMigrationClient,
     migration: MigrationFile,
+    squashes: string[] = [],
   ): VoidResult {
-    const migrationName = `${migration.id}_${migration.name}`;
+    const migrationName = formatMigration(migration);
     await tx.$executeRaw`
       UPDATE _prisma_migrations
       SET rolled_back_at = CURRENT_TIMESTAMP
       WHERE (id = ${migration.id} OR migration_name = ${migrationName})
         AND rolled_back_at IS NULL
     `;
+    await squashes.reduce(async (previous, squashedName) => {
+      await previous;
+      await tx.$executeRaw`
+        UPDATE _prisma_migrations
+        SET rolled_back_at = CURRENT_TIMESTAMP
+        WHERE migration_name = ${squashedName}
+          AND rolled_back_at IS NULL
+      `;
+    }, Promise.resolve());
   }
 }
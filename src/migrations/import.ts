@@ -0,0 +1,272 @@
+import { mkdir, readdir, rm, writeFile } from "fs/promises";
+import { dirname, join } from "path";
+import type { MigrationFile, PrismaMigrationClient } from "../types";
+import { pathExists } from "../utils";
+import type { DatabaseProvider } from "./dialect";
+
+export type ImportSource = "knex" | "typeorm" | "sequelize";
+
+export interface ImportOptions {
+  table?: string;
+  sourceDir?: string;
+}
+
+export interface SourceMigration {
+  id: string;
+  name: string;
+  sourceName: string;
+  applied: boolean;
+}
+
+export interface ImportedMigration extends MigrationFile {
+  sourceName: string;
+  applied: boolean;
+}
+
+interface ParsedSourceName {
+  id: string;
+  name: string;
+}
+
+type SourceNameParser = (sourceName: string) => ParsedSourceName | null;
+
+interface SourceDefinition {
+  table: string;
+  orderBy: string;
+  parseRow: SourceNameParser;
+  parseFile: SourceNameParser;
+}
+
+type NameRow = { name: string };
+type SourceListResult = Promise<SourceMigration[]>;
+type ImportedListResult = Promise<ImportedMigration[]>;
+type NamesResult = Promise<string[]>;
+
+const KNEX_FILE_PATTERN = /^(\d+)_(.+)\.[cm]?[jt]s$/;
+const SEQUELIZE_FILE_PATTERN = /^(\d+)-(.+)\.[cm]?[jt]s$/;
+const TYPEORM_FILE_PATTERN = /^(\d{13})-(.+)\.[cm]?[jt]s$/;
+const TYPEORM_NAME_PATTERN = /^(.+?)(\d{13})$/;
+
+export const IMPORT_SOURCES: ImportSource[] = ["knex", "typeorm", "sequelize"];
+
+function toSnakeCase(value: string): string {
+  return value
+    .replace(/([a-z0-9])([A-Z])/g, "$1_$2")
+    .replace(/[^A-Za-z0-9]+/g, "_")
+    .replace(/^_+|_+$/g, "")
+    .toLowerCase();
+}
+
+function parseWithPattern(
+  sourceName: string,
+  pattern: RegExp,
+): ParsedSourceName | null {
+  const match = sourceName.match(pattern);
+  if (!match) return null;
+  return { id: match[1], name: toSnakeCase(match[2]) };
+}
+
+function parseTypeormName(sourceName: string): ParsedSourceName | null {
+  const match = sourceName.match(TYPEORM_NAME_PATTERN);
+  if (!match) return null;
+  return { id: match[2], name: toSnakeCase(match[1]) };
+}
+
+function parseKnexName(sourceName: string): ParsedSourceName | null {
+  return parseWithPattern(sourceName, KNEX_FILE_PATTERN);
+}
+
+function parseSequelizeName(sourceName: string): ParsedSourceName | null {
+  return parseWithPattern(sourceName, SEQUELIZE_FILE_PATTERN);
+}
+
+function parseTypeormFile(sourceName: string): ParsedSourceName | null {
+  return parseWithPattern(sourceName, TYPEORM_FILE_PATTERN);
+}
+
+const SOURCE_DEFINITIONS: Record<ImportSource, SourceDefinition> = {
+  knex: {
+    table: "knex_migrations",
+    orderBy: "id",
+    parseRow: parseKnexName,
+    parseFile: parseKnexName,
+  },
+  typeorm: {
+    table: "migrations",
+    orderBy: "id",
+    parseRow: parseTypeormName,
+    parseFile: parseTypeormFile,
+  },
+  sequelize: {
+    table: "SequelizeMeta",
+    orderBy: "name",
+    parseRow: parseSequelizeName,
+    parseFile: parseSequelizeName,
+  },
+};
+
+export function isImportSource(value: unknown): value is ImportSource {
+  return IMPORT_SOURCES.includes(value as ImportSource);
+}
+
+function quoteIdentifier(
+  identifier: string,
+  provider: DatabaseProvider | undefined,
+): string {
+  if (provider === "mysql") return `\`${identifier}\``;
+  if (provider === "sqlserver") return `[${identifier}]`;
+  return `"${identifier}"`;
+}
+
+async function readAppliedNames(
+  client: PrismaMigrationClient,
+  definition: SourceDefinition,
+  options: ImportOptions,
+  provider: DatabaseProvider | undefined,
+): NamesResult {
+  const table = quoteIdentifier(options.table ?? definition.table, provider);
+  const rows = await client.$queryRawUnsafe<NameRow[]>(
+    `SELECT name FROM ${table} ORDER BY ${definition.orderBy}`,
+  );
+  return rows.map((row) => String(row.name));
+}
+
+async function readSourceFiles(sourceDir: string | undefined): NamesResult {
+  if (!sourceDir) return [];
+  const entries = await readdir(sourceDir, { withFileTypes: true });
+  return entries
+    .filter((entry) => entry.isFile())
+    .map((entry) => entry.name)
+    .toSorted();
+}
+
+function toAppliedMigration(
+  source: ImportSource,
+  sourceName: string,
+): SourceMigration {
+  const parsed = SOURCE_DEFINITIONS[source].parseRow(sourceName);
+  if (!parsed) {
+    throw new Error(
+      `Cannot import ${source} migration "${sourceName}": its name has no timestamp`,
+    );
+  }
+  return { ...parsed, sourceName, applied: true };
+}
+
+function toPendingMigrations(
+  source: ImportSource,
+  fileNames: string[],
+  appliedIds: Set<string>,
+): SourceMigration[] {
+  return fileNames.flatMap((sourceName) => {
+    const parsed = SOURCE_DEFINITIONS[source].parseFile(sourceName);
+    if (!parsed || appliedIds.has(parsed.id)) return [];
+    return [{ ...parsed, sourceName, applied: false }];
+  });
+}
+
+export async function readSourceMigrations(
+  client: PrismaMigrationClient,
+  source: ImportSource,
+  options: ImportOptions,
+  provider: DatabaseProvider | undefined,
+): SourceListResult {
+  const appliedNames = await readAppliedNames(
+    client,
+    SOURCE_DEFINITIONS[source],
+    options,
+    provider,
+  );
+  const applied = appliedNames.map((name) => toAppliedMigration(source, name));
+  const appliedIds = new Set(applied.map((migration) => migration.id));
+  const fileNames = await readSourceFiles(options.sourceDir);
+  return [...applied, ...toPendingMigrations(source, fileNames, appliedIds)];
+}
+
+function buildAppliedStub(source: ImportSource, sourceName: string): string {
+  return [
+    `-- Imported from ${source} migration ${sourceName}`,
+    `-- It was applied by ${source} and is recorded as applied here`,
+    "SELECT 1;",
+    "",
+  ].join("\n");
+}
+
+function buildPendingStub(
+  source: ImportSource,
+  sourceName: string,
+  sourceDir: string,
+): string {
+  const sourcePath = join(sourceDir, sourceName);
+  const message = `Port ${sourceName} from ${source} before applying it`;
+  return [
+    `// Imported from ${source} migration ${sourcePath}`,
+    "export async function up() {",
+    `  throw new Error(${JSON.stringify(message)});`,
+    "}",
+    "",
+    "export async function down() {",
+    `  throw new Error(${JSON.stringify(message)});`,
+    "}",
+    "",
+  ].join("\n");
+}
+
+function toDirectoryName(migration: SourceMigration): string {
+  return `${migration.id}_${migration.name}`;
+}
+
+async function assertTargetsAvailable(
+  migrationsDir: string,
+  migrations: SourceMigration[],
+  usedIds: Set<string>,
+): Promise<void> {
+  const existing = await Promise.all(
+    migrations.map((migration) => {
+      return pathExists(join(migrationsDir, toDirectoryName(migration)));
+    }),
+  );
+  const conflict = migrations.find((_, index) => existing[index]);
+  if (conflict) {
+    throw new Error(
+      `Cannot import: ${toDirectoryName(conflict)} already exists in ${migrationsDir}`,
+    );
+  }
+  const reused = migrations.find((migration) => usedIds.has(migration.id));
+  if (!reused) return;
+  throw new Error(
+    `Cannot import: migration ID ${reused.id} is already used by an existing migration or history row`,
+  );
+}
+
+export async function removeImportedMigrations(
+  migrations: MigrationFile[],
+): Promise<void> {
+  await Promise.all(
+    migrations.map((migration) => {
+      return rm(dirname(migration.path), { recursive: true, force: true });
+    }),
+  );
+}
+
+export async function writeImportedMigrations(
+  migrationsDir: string,
+  source: ImportSource,
+  migrations: SourceMigration[],
+  usedIds: Set<string>,
+  sourceDir = ".",
+): ImportedListResult {
+  await assertTargetsAvailable(migrationsDir, migrations, usedIds);
+  return migrations.reduce<ImportedListResult>(async (previous, migration) => {
+    const written = await previous;
+    const directory = join(migrationsDir, toDirectoryName(migration));
+    const fileName = migration.applied ? "migration.sql" : "migration.ts";
+    const content = migration.applied
+      ? buildAppliedStub(source, migration.sourceName)
+      : buildPendingStub(source, migration.sourceName, sourceDir);
+    const path = join(directory, fileName);
+    await mkdir(directory, { recursive: true });
+    await writeFile(path, content);
+    return [...written, { ...migration, path }];
+  }, Promise.resolve([]));
+}
@@ -1,11 +1,88 @@
-import type { MigrationFile, MigrationStatus, PrismaClient } from "../types";
-import { createMigrationNotFoundError } from "../errors";
+import type {
+  MigrationFile,
+  MigrationPhase,
+  MigrationStatus,
+  PrismaClient,
+} from "../types";
+import {
+  createBatchRolledBackError,
+  createIrreversibleMigrationError,
+  createLintFailedError,
+  createMigrationNotFoundError,
+  createMissingRollbackError,
+  type BatchSummary,
+} from "../errors";
 import { logger } from "../logger";
-import { MigrationRepository, type DiscoveredMigration } from "./discovery";
-import { MigrationExecutor } from "./executor";
-import { MigrationHistory } from "./history";
+import {
+  formatMigration,
+  generateChecksum,
+  generateStatementsChecksum,
+} from "../utils";
+import { detectProvider, type DatabaseProvider } from "./dialect";
+import {
+  MIGRATION_LAYOUTS,
+  MigrationRepository,
+  type DiscoveredMigration,
+  type MigrationLayout,
+} from "./discovery";
+import {
+  MigrationExecutor,
+  type ProgressListener,
+  type RunOutcome,
+} from "./executor";
+import { assertNoAppliedDependents } from "./graph";
+import {
+  hasLintErrors,
+  lintIrreversibleMigration,
+  lintMigrationSql,
+  type LintIssue,
+  type LintRules,
+} from "./lint";
+import {
+  getAppliedMigrationId,
+  getAppliedMigrationName,
+  MigrationHistory,
+  readAppliedChecksum,
+  toRecordedMigration,
+  type AppliedMigrationRow,
+} from "./history";
+import {
+  readSourceMigrations,
+  removeImportedMigrations,
+  writeImportedMigrations,
+  type ImportedMigration,
+  type ImportOptions,
+  type ImportSource,
+} from "./import";
+import { captureSchema, compareSchemas } from "./introspection";
 import { MigrationLock } from "./locking";
-import { loadMigrationState, type MigrationState } from "./state";
+import {
+  hasRollbackStatements,
+  isIrreversibleMigration,
+  loadMigrationScript,
+  loadMigrationSql,
+} from "./sql";
+import { buildSquash, writeSquash } from "./squash";
+import {
+  createMigrationFilter,
+  getMigrationPhase,
+  orderByPhase,
+  type MigrationFilter,
+  type TagFilter,
+} from "./selection";
+import {
+  isRepeatableChanged,
+  loadMigrationState,
+  type MigrationState,
+  type RepeatableState,
+} from "./state";
+
+export type { DatabaseProvider } from "./dialect";
+export type { MigrationLayout } from "./discovery";
+export type { ImportedMigration, ImportOptions, ImportSource } from "./import";
+export type { MigrationProgress, ProgressListener } from "./executor";
+export type { TagFilter } from "./selection";
+export type { LintIssue, LintRuleName, LintRules, LintSeverity } from "./lint";
 
 export interface MigrationHooks {
   beforeUp?: () => void | Promise<void>;
@@ -14,13 +91,40 @@ export interface MigrationHooks {
   afterDown?: () => void | Promise<void>;
 }
 
+export interface RollbackVerification {
+  migration: MigrationFile;
+  restored: boolean;
+  differences: string[];
+}
+
+export type FailureMode = "stop" | "rollback-batch";
+
+export interface FailedMigration {
+  migration: MigrationFile;
+  missing: boolean;
+  logs: string | null;
+  appliedStepsCount: number;
+}
+
 export interface MigrationsOptions {
   migrationsDir?: string;
+  layout?: MigrationLayout;
   disableLocking?: boolean;
   skipChecksumValidation?: boolean;
   lockTimeout?: number;
   lockLeaseDuration?: number;
   hooks?: MigrationHooks;
+  provider?: DatabaseProvider;
+  environment?: string;
+  phase?: MigrationPhase;
+  tags?: TagFilter;
+  allowOutOfOrder?: boolean;
+  lint?: LintRules;
+  allowUnsafe?: boolean;
+  onProgress?: ProgressListener;
+  atomic?: boolean;
+  onFailure?: FailureMode;
+  recheckSkipped?: boolean;
 }
 
 type AsyncResult<T> = Promise<T>;
@@ -33,21 +137,47 @@ type MigrationListResult = Promise<MigrationFile[]>;
 type OptionalMigrationResult = Promise<MigrationFile | null>;
 type StatusResult = Promise<MigrationStatus[]>;
 type RefreshResult = Promise<{ down: number; up: number }>;
+type LintResult = Promise<LintIssue[]>;
+type SquashResult = Promise<{ directoryName: string; count: number }>;
+type VerificationResult = Promise<RollbackVerification[]>;
+type FailedResult = Promise<FailedMigration[]>;
+type ImportResult = Promise<ImportedMigration[]>;
+type IdSetResult = Promise<Set<string>>;
+type BatchSummaryResult = Promise<BatchSummary>;
+type StatusSets = {
+  applied: Set<string>;
+  included: Set<DiscoveredMigration>;
+  failed: Set<string>;
+  skipped: Set<string>;
+};
 type ConditionalUpResult = Promise<{
   ran: boolean;
   count: number;
   reason?: string;
 }>;
 
+function toError(error: unknown): Error {
+  if (error instanceof Error) return error;
+  return new Error(String(error));
+}
+
+function isVersioned(migration: DiscoveredMigration): boolean {
+  return migration.kind !== "repeatable";
+}
+
+function countCompleted(outcomes: RunOutcome[]): number {
+  return outcomes.filter((outcome) => outcome === "completed").length;
+}
+
 function validateSteps(steps: number | undefined, name = "steps"): void {
   if (steps === undefined) return;
   const isValid = Number.isSafeInteger(steps) && steps > 0;
   if (!isValid) throw new Error(`${name} must be a positive integer`);
 }
 
-async function runSequential(
-  migrations: DiscoveredMigration[],
-  run: (migration: DiscoveredMigration) => VoidResult,
+async function runSequential<T extends MigrationFile>(
+  migrations: T[],
+  run: (migration: T) => VoidResult,
 ): VoidResult {
   await migrations.reduce(async (previous, migration) => {
     await previous;
@@ -75,9 +205,16 @@ function resolveMigrations(
   });
 }
 
-function selectPending(state: MigrationState): DiscoveredMigration[] {
+function selectPending(
+  state: MigrationState,
+  includeSkipped = false,
+): DiscoveredMigration[] {
   const applied = new Set(state.appliedIds);
-  return state.all.filter((migration) => !applied.has(migration.id));
+  const skipped = new Set(includeSkipped ? state.skippedIds : []);
+  const pending = state.included.filter((migration) => {
+    return !applied.has(migration.id) || skipped.has(migration.id);
+  });
+  return orderByPhase(pending);
 }
 
 function limitMigrations(
@@ -88,7 +225,220 @@ function limitMigrations(
   return migrations.slice(0, steps);
 }
 
+function selectChangedRepeatables(
+  state: MigrationState,
+): DiscoveredMigration[] {
+  return state.repeatables
+    .filter((repeatable) => repeatable.included)
+    .filter(isRepeatableChanged)
+    .map((repeatable) => repeatable.migration);
+}
+
+function selectUpMigrations(
+  state: MigrationState,
+  steps: number | undefined,
+  includeSkipped: boolean,
+): DiscoveredMigration[] {
+  const pending = selectPending(state, includeSkipped);
+  const migrations = limitMigrations(pending, steps);
+  const hasRemainingPending = migrations.length < pending.length;
+  if (hasRemainingPending) return migrations;
+  return [...migrations, ...selectChangedRepeatables(state)];
+}
+
+async function lintMigration(
+  migration: DiscoveredMigration,
+  rules: LintRules,
+  provider: DatabaseProvider | undefined,
+): LintResult {
+  const migrationName = formatMigration(migration);
+  const isIrreversible = await isIrreversibleMigration(migration);
+  const irreversibleIssues = isIrreversible
+    ? lintIrreversibleMigration(migrationName, rules)
+    : [];
+  if (migration.format === "module") return irreversibleIssues;
+  const sql = await loadMigrationSql(migration, "up");
+  const issues = lintMigrationSql(migrationName, sql, rules, provider);
+  return [...irreversibleIssues, ...issues];
+}
+
+function describeLintIssue(issue: LintIssue): string {
+  if (issue.statementNumber === undefined) {
+    return `${issue.migration}: ${issue.message}`;
+  }
+  return `${issue.migration} statement ${issue.statementNumber}: ${issue.message}`;
+}
+
+async function assertReversible(migrations: DiscoveredMigration[]): VoidResult {
+  const checks = await Promise.all(migrations.map(isIrreversibleMigration));
+  const irreversible = migrations.filter((_, index) => checks[index]);
+  if (irreversible.length > 0) {
+    throw createIrreversibleMigrationError(irreversible.map(formatMigration));
+  }
+  const rollbacks = await Promise.all(migrations.map(hasRollbackStatements));
+  const missing = migrations.filter((_, index) => !rollbacks[index]);
+  if (missing.length === 0) return;
+  throw createMissingRollbackError(missing.map(formatMigration));
+}
+
+function selectVerificationRun(
+  state: MigrationState,
+  ids: string[] | undefined,
+): DiscoveredMigration[] {
+  if (!ids) return state.included;
+  resolveMigrations(state.included, ids);
+  const lastIndex = Math.max(
+    ...ids.map((id) => {
+      return state.included.findIndex((migration) => migration.id === id);
+    }),
+  );
+  return state.included.slice(0, lastIndex + 1);
+}
+
+function assertDirectoryLayout(
+  layout: MigrationLayout,
+  operation: string,
+): void {
+  if (layout === "prisma") return;
+  throw new Error(
+    `${operation} only supports the prisma layout; the ${layout} layout is configured`,
+  );
+}
+
+async function collectUsedIds(
+  migrationsDir: string,
+  history: MigrationHistory,
+): IdSetResult {
+  const rows = await history.rows();
+  const discovered = await Promise.all(
+    MIGRATION_LAYOUTS.map((layout) => {
+      return new MigrationRepository(migrationsDir, layout).all();
+    }),
+  );
+  const migrationIds = discovered.flat().map((migration) => migration.id);
+  return new Set([...rows.map(getAppliedMigrationId), ...migrationIds]);
+}
+
+function prefixDifferences(prefix: string, differences: string[]): string[] {
+  return differences.map((difference) => `${prefix}: ${difference}`);
+}
+
+function listResolvable(state: MigrationState): DiscoveredMigration[] {
+  const repeatables = state.repeatables.map((repeatable) => {
+    return repeatable.migration;
+  });
+  return [...state.all, ...repeatables];
+}
+
+function findFailedMigration(
+  state: MigrationState,
+  row: AppliedMigrationRow,
+): DiscoveredMigration | undefined {
+  const migrationName = getAppliedMigrationName(row);
+  return listResolvable(state).find((migration) => {
+    return formatMigration(migration) === migrationName;
+  });
+}
+
+function resolveFailedMigration(
+  state: MigrationState,
+  migrationId: string,
+): MigrationFile {
+  const discovered = indexMigrations(listResolvable(state)).get(migrationId);
+  if (discovered) return discovered;
+  const recorded = state.failedRows.map(toRecordedMigration).find((file) => {
+    return file.id === migrationId;
+  });
+  if (!recorded) throw createMigrationNotFoundError(migrationId);
+  return recorded;
+}
+
+function findFailedRows(
+  state: MigrationState,
+  migration: MigrationFile,
+): AppliedMigrationRow[] {
+  const migrationName = formatMigration(migration);
+  return state.failedRows.filter((row) => {
+    return getAppliedMigrationName(row) === migrationName;
+  });
+}
+
+function assertFailed(state: MigrationState, migration: MigrationFile): void {
+  if (findFailedRows(state, migration).length > 0) return;
+  throw new Error(
+    `Migration ${formatMigration(migration)} has no failed attempt to resolve`,
+  );
+}
+
+async function readResumeStep(
+  state: MigrationState,
+  migration: DiscoveredMigration,
+): NumberResult {
+  const row = findFailedRows(state, migration).at(-1);
+  const appliedSteps = Number(row?.applied_steps_count ?? 0);
+  if (!row || appliedSteps === 0) return 0;
+  const isUnchanged = await hasSameAppliedStatements(
+    row,
+    migration,
+    appliedSteps,
+  );
+  if (isUnchanged) return appliedSteps;
+  logger.warn(
+    `${formatMigration(migration)} changed its applied statements since it failed; running it from the first statement`,
+  );
+  return 0;
+}
+
+async function hasSameAppliedStatements(
+  row: AppliedMigrationRow,
+  migration: DiscoveredMigration,
+  appliedSteps: number,
+): BooleanResult {
+  const checksum = await generateChecksum(migration.path);
+  if (row.checksum === checksum) return true;
+  const recorded = readAppliedChecksum(row);
+  if (!recorded || migration.format === "module") return false;
+  const { statements } = await loadMigrationScript(migration, "up");
+  const applied = statements.slice(0, appliedSteps);
+  return generateStatementsChecksum(applied) === recorded;
+}
+
+async function describeStatus(
+  migration: DiscoveredMigration,
+  sets: StatusSets,
+): AsyncResult<MigrationStatus> {
+  const isApplied = sets.applied.has(migration.id);
+  const isIncluded = sets.included.has(migration);
+  if (sets.failed.has(formatMigration(migration))) {
+    return { migration, applied: false, failed: true };
+  }
+  if (sets.skipped.has(migration.id)) {
+    return { migration, applied: false, skipped: true };
+  }
+  const isExcluded = !isApplied && !isIncluded;
+  if (isExcluded) return { migration, applied: false, excluded: true };
+  const isIrreversible = await isIrreversibleMigration(migration);
+  if (!isIrreversible) return { migration, applied: isApplied };
+  return { migration, applied: isApplied, irreversible: true };
+}
+
+function withPhase(
+  status: MigrationStatus,
+  migration: DiscoveredMigration,
+): MigrationStatus {
+  if (getMigrationPhase(migration) !== "post") return status;
+  return { ...status, phase: "post" };
+}
+
+function toRepeatableStatus(repeatable: RepeatableState): MigrationStatus {
+  const migration = repeatable.migration;
+  const applied = repeatable.appliedChecksum !== undefined;
+  if (!repeatable.included) return { migration, applied, excluded: true };
+  return { migration, applied, changed: isRepeatableChanged(repeatable) };
+}
+
 export class Migrations {
+  private readonly prisma: PrismaClient;
   private readonly repository: MigrationRepository;
   private readonly history: MigrationHistory;
   private readonly executor: MigrationExecutor;
@@ -96,13 +446,41 @@ export class Migrations {
   private readonly skipChecksumValidation: boolean;
   private readonly lockTimeout: number;
   private readonly hooks: MigrationHooks;
+  private readonly filter: MigrationFilter;
+  private readonly allowOutOfOrder: boolean;
+  private readonly lintRules: LintRules;
+  private readonly allowUnsafe: boolean;
+  private readonly provider: DatabaseProvider | undefined;
+  private readonly atomic: boolean;
+  private readonly onFailure: FailureMode;
+  private readonly recheckSkipped: boolean;
 
   constructor(prisma: PrismaClient, options: MigrationsOptions = {}) {
     const migrationsDir = options.migrationsDir ?? "./prisma/migrations";
-    this.repository = new MigrationRepository(migrationsDir);
+    const provider = options.provider ?? detectProvider(prisma);
+    const environment = options.environment ?? process.env.NODE_ENV;
+    this.prisma = prisma;
+    this.repository = new MigrationRepository(migrationsDir, options.layout);
     this.history = new MigrationHistory(prisma);
-    this.executor = new MigrationExecutor(prisma, this.history);
+    this.executor = new MigrationExecutor(
+      prisma,
+      this.history,
+      provider,
+      options.onProgress,
+    );
+    this.filter = createMigrationFilter({
+      environment,
+      phase: options.phase,
+      tags: options.tags,
+    });
     this.skipChecksumValidation = options.skipChecksumValidation ?? false;
+    this.allowOutOfOrder = options.allowOutOfOrder ?? false;
+    this.lintRules = options.lint ?? {};
+    this.allowUnsafe = options.allowUnsafe ?? false;
+    this.provider = provider;
+    this.atomic = options.atomic ?? false;
+    this.onFailure = options.onFailure ?? "stop";
+    this.recheckSkipped = options.recheckSkipped ?? false;
     this.lockTimeout = options.lockTimeout ?? 30000;
     this.hooks = options.hooks ?? {};
     const lockingDisabled = options.disableLocking ?? false;
@@ -112,9 +490,14 @@ export class Migrations {
       : new MigrationLock(prisma, leaseDuration);
   }
 
-  private state(validateChecksums: boolean): StateResult {
+  private state(validateChecksums: boolean, allowFailed = false): StateResult {
     const shouldValidate = validateChecksums && !this.skipChecksumValidation;
-    return loadMigrationState(this.repository, this.history, shouldValidate);
+    return loadMigrationState(this.repository, this.history, {
+      validateChecksums: shouldValidate,
+      filter: this.filter,
+      allowOutOfOrder: this.allowOutOfOrder,
+      allowFailed,
+    });
   }
 
   private withMigrationLock<T>(fn: () => AsyncResult<T>) {
@@ -122,10 +505,34 @@ export class Migrations {
     return this.lock.withLock(fn, this.lockTimeout);
   }
 
+  async lint(): LintResult {
+    const state = await this.state(false);
+    return this.lintMigrations(selectPending(state));
+  }
+
+  private async lintMigrations(migrations: DiscoveredMigration[]): LintResult {
+    const results = await Promise.all(
+      migrations.map((migration) => {
+        return lintMigration(migration, this.lintRules, this.provider);
+      }),
+    );
+    return results.flat();
+  }
+
+  private async assertLintPasses(
+    migrations: DiscoveredMigration[],
+  ): VoidResult {
+    if (this.allowUnsafe) return;
+    const issues = await this.lintMigrations(migrations);
+    if (!hasLintErrors(issues)) return;
+    const errors = issues.filter((issue) => issue.severity === "error");
+    throw createLintFailedError(errors.map(describeLintIssue));
+  }
+
   async dryRun(steps?: number): MigrationListResult {
     validateSteps(steps);
-    const pending = await this.pending();
-    return limitMigrations(pending as DiscoveredMigration[], steps);
+    const state = await this.state(false);
+    return selectUpMigrations(state, steps, this.recheckSkipped);
   }
 
   async up(steps?: number): NumberResult {
@@ -133,16 +540,115 @@ export class Migrations {
     return this.withMigrationLock(() => this.runUpMigrations(steps));
   }
 
-  private async runUpMigrations(steps?: number): NumberResult {
+  private async runUpMigrations(steps?: number, lint = true): NumberResult {
     await this.hooks.beforeUp?.();
     const state = await this.state(true);
-    const pending = selectPending(state);
-    const migrations = limitMigrations(pending, steps);
+    const migrations = selectUpMigrations(state, steps, this.recheckSkipped);
+    if (lint) await this.assertLintPasses(migrations);
+    const count = await this.applyMigrations(migrations, state);
+    await this.hooks.afterUp?.();
+    return count;
+  }
+
+  private async applyMigrations(
+    migrations: DiscoveredMigration[],
+    state: MigrationState,
+  ): NumberResult {
+    const recheckIds = new Set(state.skippedIds);
+    const isAtomicBatch = this.atomic && migrations.length > 0;
+    if (isAtomicBatch) {
+      const outcomes = await this.executor.runAtomic(migrations, recheckIds);
+      return countCompleted(outcomes);
+    }
+    if (this.onFailure === "rollback-batch") {
+      return this.applyWithCompensation(migrations, recheckIds);
+    }
+    const outcomes: RunOutcome[] = [];
+    await runSequential(migrations, async (migration) => {
+      const recheck = recheckIds.has(migration.id);
+      outcomes.push(await this.executor.run(migration, "up", { recheck }));
+    });
+    return countCompleted(outcomes);
+  }
+
+  private async applyWithCompensation(
+    migrations: DiscoveredMigration[],
+    recheckIds: Set<string>,
+  ): NumberResult {
+    await assertReversible(migrations.filter(isVersioned));
+    const applied: DiscoveredMigration[] = [];
+    const skippedIds = new Set<string>();
+    let current = migrations[0];
+    try {
+      await runSequential(migrations, async (migration) => {
+        current = migration;
+        const recheck = recheckIds.has(migration.id);
+        const outcome = await this.executor.run(migration, "up", { recheck });
+        if (outcome === "skipped" && recheck) return;
+        if (outcome === "skipped") skippedIds.add(migration.id);
+        applied.push(migration);
+      });
+    } catch (error) {
+      const summary = await this.compensate(applied, current, skippedIds);
+      throw createBatchRolledBackError(summary, toError(error));
+    }
+    return applied.length - skippedIds.size;
+  }
+
+  private async rollBack(
+    migration: DiscoveredMigration,
+    skippedIds: Set<string>,
+  ): VoidResult {
+    if (!skippedIds.has(migration.id)) {
+      await this.executor.run(migration, "down");
+      return;
+    }
+    await this.history.recordRolledBack(this.prisma, migration);
+    logger.info(`Cleared skipped ${formatMigration(migration)}`);
+  }
+
+  private async rollBackAll(
+    migrations: DiscoveredMigration[],
+    state: MigrationState,
+  ): VoidResult {
+    const skippedIds = new Set(state.skippedIds);
+    const executed = migrations.filter((migration) => {
+      return !skippedIds.has(migration.id);
+    });
+    await assertReversible(executed);
     await runSequential(migrations, (migration) => {
-      return this.executor.run(migration, "up");
+      return this.rollBack(migration, skippedIds);
     });
-    await this.hooks.afterUp?.();
-    return migrations.length;
+  }
+
+  private async compensate(
+    applied: DiscoveredMigration[],
+    failed: DiscoveredMigration,
+    skippedIds: Set<string>,
+  ): BatchSummaryResult {
+    const reversible = applied.filter(isVersioned).toReversed();
+    const compensated: string[] = [];
+    let compensationError: string | undefined;
+    await runSequential(reversible, async (migration) => {
+      if (compensationError) return;
+      try {
+        await this.rollBack(migration, skippedIds);
+        compensated.push(formatMigration(migration));
+      } catch (error) {
+        compensationError = toError(error).message;
+      }
+    });
+    const notCompensated = applied
+      .toReversed()
+      .map(formatMigration)
+      .filter((name) => !compensated.includes(name));
+    return {
+      applied: applied.map(formatMigration),
+      failed: formatMigration(failed),
+      compensated,
+      notCompensated,
+      compensationError,
+    };
   }
 
   async down(steps = 1): NumberResult {
@@ -154,21 +660,29 @@ export class Migrations {
     await this.hooks.beforeDown?.();
     const state = await this.state(true);
     const ids = state.appliedIds.slice(-steps).toReversed();
+    assertNoAppliedDependents(state.all, state.appliedIds, ids);
     const migrations = resolveMigrations(state.all, ids);
-    await runSequential(migrations, (migration) => {
-      return this.executor.run(migration, "down");
-    });
+    await this.rollBackAll(migrations, state);
     await this.hooks.afterDown?.();
     return migrations.length;
   }
 
   async status(): StatusResult {
-    const state = await this.state(false);
-    const applied = new Set(state.appliedIds);
-    return state.all.map((migration) => {
-      const isApplied = applied.has(migration.id);
-      return { migration, applied: isApplied };
-    });
+    const state = await this.state(false, true);
+    const sets = {
+      applied: new Set(state.appliedIds),
+      included: new Set(state.included),
+      failed: new Set(state.failedRows.map(getAppliedMigrationName)),
+      skipped: new Set(state.skippedIds),
+    };
+    const versioned = await Promise.all(
+      state.all.map(async (migration) => {
+        const status = await describeStatus(migration, sets);
+        return withPhase(status, migration);
+      }),
+    );
+    const repeatables = state.repeatables.map(toRepeatableStatus);
+    return [...versioned, ...repeatables];
   }
 
   async pending(): MigrationListResult {
@@ -176,6 +690,11 @@ export class Migrations {
     return selectPending(state);
   }
 
+  async skipped(): MigrationListResult {
+    const state = await this.state(false);
+    return resolveMigrations(state.all, state.skippedIds);
+  }
+
   async applied(): MigrationListResult {
     const state = await this.state(false);
     return resolveMigrations(state.all, state.appliedIds);
@@ -196,28 +715,46 @@ export class Migrations {
     const state = await this.state(true);
     const ids = state.appliedIds.toReversed();
     const migrations = resolveMigrations(state.all, ids);
-    await runSequential(migrations, (migration) => {
-      return this.executor.run(migration, "down");
-    });
+    await this.rollBackAll(migrations, state);
+    await this.forgetRepeatables(state);
     await this.hooks.afterDown?.();
     return migrations.length;
   }
 
+  private async forgetRepeatables(state: MigrationState): VoidResult {
+    const applied = state.repeatables.filter((repeatable) => {
+      return repeatable.appliedChecksum !== undefined;
+    });
+    await runSequential(
+      applied.map((repeatable) => repeatable.migration),
+      (migration) => this.history.recordRolledBack(this.prisma, migration),
+    );
+  }
+
   async fresh(): NumberResult {
     return this.withMigrationLock(async () => {
+      await this.assertRerunLintPasses();
       await this.runResetMigrations();
-      return this.runUpMigrations();
+      return this.runUpMigrations(undefined, false);
     });
   }
 
   async refresh(): RefreshResult {
     return this.withMigrationLock(async () => {
+      await this.assertRerunLintPasses();
       const down = await this.runResetMigrations();
-      const up = await this.runUpMigrations();
+      const up = await this.runUpMigrations(undefined, false);
       return { down, up };
     });
   }
 
+  private async assertRerunLintPasses(): VoidResult {
+    const versioned = await this.repository.all();
+    const repeatables = await this.repository.repeatables();
+    const migrations = [...versioned, ...repeatables].filter(this.filter);
+    await this.assertLintPasses(migrations);
+  }
+
   async upTo(migrationId: string): NumberResult {
     return this.withMigrationLock(() => this.runUpToMigration(migrationId));
   }
@@ -225,7 +762,7 @@ export class Migrations {
   private async runUpToMigration(migrationId: string): NumberResult {
     await this.hooks.beforeUp?.();
     const state = await this.state(true);
-    const pending = selectPending(state);
+    const pending = selectPending(state, this.recheckSkipped);
     const targetIndex = pending.findIndex((migration) => {
       return migration.id === migrationId;
     });
@@ -235,11 +772,10 @@ export class Migrations {
       );
     }
     const migrations = pending.slice(0, targetIndex + 1);
-    await runSequential(migrations, (migration) => {
-      return this.executor.run(migration, "up");
-    });
+    await this.assertLintPasses(migrations);
+    const count = await this.applyMigrations(migrations, state);
     await this.hooks.afterUp?.();
-    return migrations.length;
+    return count;
   }
 
   async downTo(migrationId: string): NumberResult {
@@ -256,14 +792,257 @@ export class Migrations {
       );
     }
     const ids = state.appliedIds.slice(targetIndex + 1).toReversed();
+    assertNoAppliedDependents(state.all, state.appliedIds, ids);
     const migrations = resolveMigrations(state.all, ids);
-    await runSequential(migrations, (migration) => {
-      return this.executor.run(migration, "down");
-    });
+    await this.rollBackAll(migrations, state);
     await this.hooks.afterDown?.();
     return migrations.length;
   }
 
+  async baseline(migrationId: string): NumberResult {
+    return this.withMigrationLock(() => this.runBaseline(migrationId));
+  }
+
+  private async runBaseline(migrationId: string): NumberResult {
+    const state = await this.state(true);
+    const targetIndex = state.included.findIndex((migration) => {
+      return migration.id === migrationId;
+    });
+    if (targetIndex < 0) throw createMigrationNotFoundError(migrationId);
+    const applied = new Set(state.appliedIds);
+    const migrations = state.included
+      .slice(0, targetIndex + 1)
+      .filter((migration) => !applied.has(migration.id));
+    await this.prisma.$transaction(async (tx) => {
+      await runSequential(migrations, async (migration) => {
+        const checksum = await generateChecksum(migration.path);
+        await this.history.recordApplied(tx, migration, checksum);
+      });
+    });
+    logger.info(`Baselined ${migrations.length} migration(s)`);
+    return migrations.length;
+  }
+
+  async squash(migrationId: string): SquashResult {
+    return this.withMigrationLock(() => this.runSquash(migrationId));
+  }
+
+  private async runSquash(migrationId: string): SquashResult {
+    assertDirectoryLayout(this.repository.layout, "Squash");
+    const state = await this.state(true);
+    const targetIndex = state.all.findIndex((migration) => {
+      return migration.id === migrationId;
+    });
+    if (targetIndex < 0) throw createMigrationNotFoundError(migrationId);
+    const migrations = state.all.slice(0, targetIndex + 1);
+    const applied = new Set(state.appliedIds);
+    const appliedCount = migrations.filter((migration) => {
+      return applied.has(migration.id);
+    }).length;
+    const isPartlyApplied =
+      appliedCount > 0 && appliedCount < migrations.length;
+    if (isPartlyApplied) {
+      throw new Error(
+        `Cannot squash up to ${migrationId}: only ${appliedCount} of ${migrations.length} migrations are applied`,
+      );
+    }
+    const squash = await buildSquash(migrations, migrations[targetIndex]);
+    await writeSquash(this.repository.migrationsDir, migrations, squash);
+    if (squash.irreversible.length > 0) {
+      logger.warn(
+        `${squash.directoryName} is irreversible: ${squash.irreversible.join(", ")} had no rollback SQL`,
+      );
+    }
+    if (appliedCount > 0) await this.recordSquash(migrationId);
+    logger.info(
+      `Squashed ${migrations.length} migrations into ${squash.directoryName}`,
+    );
+    return { directoryName: squash.directoryName, count: migrations.length };
+  }
+
+  private async recordSquash(migrationId: string): VoidResult {
+    const migration = await this.repository.find(migrationId);
+    if (!migration) throw createMigrationNotFoundError(migrationId);
+    const checksum = await generateChecksum(migration.path);
+    await this.prisma.$transaction((tx) => {
+      return this.history.recordApplied(tx, migration, checksum);
+    });
+  }
+
+  async verifyRollback(ids?: string[]): VerificationResult {
+    return this.withMigrationLock(() => this.runVerifyRollback(ids));
+  }
+
+  private async runVerifyRollback(ids?: string[]): VerificationResult {
+    const state = await this.state(true);
+    if (state.appliedIds.length > 0) {
+      throw new Error(
+        "Rollback verification needs an empty scratch database; found applied migrations",
+      );
+    }
+    const migrations = selectVerificationRun(state, ids);
+    const targets = new Set(ids ?? migrations.map((migration) => migration.id));
+    const results: RollbackVerification[] = [];
+    try {
+      await runSequential(migrations, async (migration) => {
+        if (!targets.has(migration.id)) {
+          await this.executor.run(migration, "up");
+          return;
+        }
+        results.push(await this.verifyMigrationRollback(migration));
+      });
+    } finally {
+      await this.resetScratchDatabase();
+    }
+    return results;
+  }
+
+  private async resetScratchDatabase(): VoidResult {
+    try {
+      const state = await this.state(false);
+      const ids = state.appliedIds.toReversed();
+      await this.rollBackAll(resolveMigrations(state.all, ids), state);
+      await this.forgetRepeatables(state);
+    } catch (error) {
+      logger.warn(
+        `Could not reset the scratch database after rollback verification: ${toError(error).message}`,
+      );
+    }
+  }
+
+  private async verifyMigrationRollback(
+    migration: DiscoveredMigration,
+  ): AsyncResult<RollbackVerification> {
+    const before = await captureSchema(this.prisma, this.provider);
+    const outcome = await this.executor.run(migration, "up");
+    if (outcome === "skipped") {
+      logger.warn(
+        `${formatMigration(migration)} was skipped by condition.sql; its rollback was not verified`,
+      );
+      return { migration, restored: true, differences: [] };
+    }
+    const after = await captureSchema(this.prisma, this.provider);
+    try {
+      await this.executor.run(migration, "down");
+    } catch (error) {
+      const differences = [`down failed: ${toError(error).message}`];
+      return { migration, restored: false, differences };
+    }
+    const rolledBack = await captureSchema(this.prisma, this.provider);
+    await this.executor.run(migration, "up");
+    const reapplied = await captureSchema(this.prisma, this.provider);
+    const differences = [
+      ...prefixDifferences("after down", compareSchemas(before, rolledBack)),
+      ...prefixDifferences("after re-up", compareSchemas(after, reapplied)),
+    ];
+    return { migration, restored: differences.length === 0, differences };
+  }
+
+  async importFrom(
+    source: ImportSource,
+    options: ImportOptions = {},
+  ): ImportResult {
+    return this.withMigrationLock(() => this.runImport(source, options));
+  }
+
+  private async runImport(
+    source: ImportSource,
+    options: ImportOptions,
+  ): ImportResult {
+    assertDirectoryLayout(this.repository.layout, "Import");
+    const sourceMigrations = await readSourceMigrations(
+      this.prisma,
+      source,
+      options,
+      this.provider,
+    );
+    const usedIds = await collectUsedIds(
+      this.repository.migrationsDir,
+      this.history,
+    );
+    const imported = await writeImportedMigrations(
+      this.repository.migrationsDir,
+      source,
+      sourceMigrations,
+      usedIds,
+      options.sourceDir,
+    );
+    try {
+      await this.recordImported(imported);
+    } catch (error) {
+      await removeImportedMigrations(imported);
+      throw error;
+    }
+    logger.info(`Imported ${imported.length} ${source} migration(s)`);
+    return imported;
+  }
+
+  private async recordImported(imported: ImportedMigration[]): VoidResult {
+    const applied = imported.filter((migration) => migration.applied);
+    await this.history.ensureTable();
+    await this.prisma.$transaction(async (tx) => {
+      await runSequential(applied, async (migration) => {
+        const checksum = await generateChecksum(migration.path);
+        await this.history.recordApplied(tx, migration, checksum);
+      });
+    });
+  }
+
+  async failed(): FailedResult {
+    const state = await this.state(false, true);
+    return state.failedRows.map((row) => {
+      const discovered = findFailedMigration(state, row);
+      const migration = discovered ?? toRecordedMigration(row);
+      const missing = !discovered;
+      const logs = row.logs ?? null;
+      const appliedStepsCount = Number(row.applied_steps_count ?? 0);
+      return { migration, missing, logs, appliedStepsCount };
+    });
+  }
+
+  async markApplied(migrationId: string): VoidResult {
+    return this.withMigrationLock(() => this.runMarkApplied(migrationId));
+  }
+
+  private async runMarkApplied(migrationId: string): VoidResult {
+    const state = await this.state(false, true);
+    const [migration] = resolveMigrations(listResolvable(state), [migrationId]);
+    if (state.appliedIds.includes(migrationId)) {
+      throw new Error(`Migration ${migrationId} is already applied`);
+    }
+    const checksum = await generateChecksum(migration.path);
+    await this.prisma.$transaction(async (tx) => {
+      await this.history.recordRolledBack(tx, migration);
+      await this.history.recordApplied(tx, migration, checksum);
+    });
+    logger.info(`Marked ${formatMigration(migration)} as applied`);
+  }
+
+  async markRolledBack(migrationId: string): VoidResult {
+    return this.withMigrationLock(() => this.runMarkRolledBack(migrationId));
+  }
+
+  private async runMarkRolledBack(migrationId: string): VoidResult {
+    const state = await this.state(false, true);
+    const migration = resolveFailedMigration(state, migrationId);
+    assertFailed(state, migration);
+    await this.history.recordRolledBack(this.prisma, migration);
+    logger.info(`Marked ${formatMigration(migration)} as rolled back`);
+  }
+
+  async retryFailed(migrationId: string): VoidResult {
+    return this.withMigrationLock(() => this.runRetryFailed(migrationId));
+  }
+
+  private async runRetryFailed(migrationId: string): VoidResult {
+    const state = await this.state(false, true);
+    const [migration] = resolveMigrations(listResolvable(state), [migrationId]);
+    assertFailed(state, migration);
+    const startStep = await readResumeStep(state, migration);
+    await this.history.recordRolledBack(this.prisma, migration);
+    await this.executor.run(migration, "up", { startStep });
+  }
+
   async upIfNotLocked(steps?: number): ConditionalUpResult {
     validateSteps(steps);
     if (!this.lock) {
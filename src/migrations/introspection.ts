@@ -0,0 +1,127 @@
+import type { PrismaMigrationClient } from "../types";
+import type { DatabaseProvider } from "./dialect";
+
+export type SchemaSnapshot = string[];
+
+type SchemaRow = Record<string, unknown>;
+type RowsResult = Promise<SchemaRow[]>;
+type SnapshotResult = Promise<SchemaSnapshot>;
+type SnapshotQuery = (client: PrismaMigrationClient) => RowsResult;
+
+const HISTORY_TABLE = "_prisma_migrations";
+
+function queryPostgresSchema(client: PrismaMigrationClient): RowsResult {
+  return client.$queryRaw<SchemaRow[]>`
+    SELECT 'column' AS kind, table_name AS owner, column_name AS name,
+      concat_ws(' ', data_type, is_nullable, column_default) AS definition
+    FROM information_schema.columns
+    WHERE table_schema = current_schema()
+    UNION ALL
+    SELECT 'index', tablename, indexname, indexdef
+    FROM pg_indexes
+    WHERE schemaname = current_schema()
+    UNION ALL
+    SELECT 'constraint', table_name, constraint_name, constraint_type
+    FROM information_schema.table_constraints
+    WHERE table_schema = current_schema()
+    UNION ALL
+    SELECT 'type', t.typname, e.enumlabel, e.enumsortorder::text
+    FROM pg_type t
+    JOIN pg_enum e ON e.enumtypid = t.oid
+    JOIN pg_namespace n ON n.oid = t.typnamespace
+    WHERE n.nspname = current_schema()
+  `;
+}
+
+function queryMysqlSchema(client: PrismaMigrationClient): RowsResult {
+  return client.$queryRaw<SchemaRow[]>`
+    SELECT 'column' AS kind, table_name AS owner, column_name AS name,
+      concat_ws(' ', column_type, is_nullable, column_default) AS definition
+    FROM information_schema.columns
+    WHERE table_schema = DATABASE()
+    UNION ALL
+    SELECT 'index', table_name, index_name,
+      concat_ws(' ', non_unique, seq_in_index, column_name)
+    FROM information_schema.statistics
+    WHERE table_schema = DATABASE()
+    UNION ALL
+    SELECT 'constraint', table_name, constraint_name, constraint_type
+    FROM information_schema.table_constraints
+    WHERE table_schema = DATABASE()
+  `;
+}
+
+function querySqliteSchema(client: PrismaMigrationClient): RowsResult {
+  return client.$queryRaw<SchemaRow[]>`
+    SELECT type AS kind, tbl_name AS owner, name, sql AS definition
+    FROM sqlite_master
+    WHERE name NOT LIKE 'sqlite_%'
+  `;
+}
+
+function querySqlServerSchema(client: PrismaMigrationClient): RowsResult {
+  return client.$queryRaw<SchemaRow[]>`
+    SELECT 'column' AS kind, TABLE_NAME AS owner, COLUMN_NAME AS name,
+      CONCAT_WS(' ', DATA_TYPE, IS_NULLABLE, COLUMN_DEFAULT) AS definition
+    FROM INFORMATION_SCHEMA.COLUMNS
+    WHERE TABLE_SCHEMA = SCHEMA_NAME()
+    UNION ALL
+    SELECT 'index', OBJECT_NAME(object_id), name,
+      CONCAT_WS(' ', type_desc, is_unique)
+    FROM sys.indexes
+    WHERE name IS NOT NULL AND OBJECTPROPERTY(object_id, 'IsUserTable') = 1
+    UNION ALL
+    SELECT 'constraint', TABLE_NAME, CONSTRAINT_NAME, CONSTRAINT_TYPE
+    FROM INFORMATION_SCHEMA.TABLE_CONSTRAINTS
+    WHERE TABLE_SCHEMA = SCHEMA_NAME()
+  `;
+}
+
+const SNAPSHOT_QUERIES: Record<DatabaseProvider, SnapshotQuery> = {
+  postgresql: queryPostgresSchema,
+  cockroachdb: queryPostgresSchema,
+  mysql: queryMysqlSchema,
+  sqlite: querySqliteSchema,
+  sqlserver: querySqlServerSchema,
+};
+
+function describeRow(row: SchemaRow): string {
+  const definition = row.definition ?? "";
+  return `${row.kind} ${row.owner}.${row.name}: ${definition}`;
+}
+
+function isMigrationHistory(row: SchemaRow): boolean {
+  return String(row.owner) === HISTORY_TABLE;
+}
+
+export async function captureSchema(
+  client: PrismaMigrationClient,
+  provider: DatabaseProvider | undefined,
+): SnapshotResult {
+  if (!provider) {
+    throw new Error(
+      "Schema snapshots need a database provider. " +
+        'Set the "provider" option.',
+    );
+  }
+  const rows = await SNAPSHOT_QUERIES[provider](client);
+  const entries = rows
+    .filter((row) => !isMigrationHistory(row))
+    .map(describeRow);
+  return entries.toSorted();
+}
+
+export function compareSchemas(
+  expected: SchemaSnapshot,
+  actual: SchemaSnapshot,
+): string[] {
+  const expectedEntries = new Set(expected);
+  const actualEntries = new Set(actual);
+  const missing = expected
+    .filter((entry) => !actualEntries.has(entry))
+    .map((entry) => `missing ${entry}`);
+  const unexpected = actual
+    .filter((entry) => !expectedEntries.has(entry))
+    .map((entry) => `unexpected ${entry}`);
+  return [...missing, ...unexpected];
+}
@@ -0,0 +1,157 @@
+import { summarizeStatement } from "../utils";
+import type { DatabaseProvider } from "./dialect";
+import { splitSqlList, splitSqlStatements, stripLeadingComments } from "./sql";
+
+const IDENTIFIER = String.raw`(?:"[^"]+"|\x60[^\x60]+\x60|\[[^\]]+\]|[\w$]+)`;
+const NAME = String.raw`${IDENTIFIER}(?:\.${IDENTIFIER})?`;
+const GENERATED_HEADER = "-- Generated rollback; review before running";
+const IRREVERSIBLE_MARKER = "-- TODO: irreversible";
+
+const CREATE_TABLE_PATTERN = new RegExp(
+  String.raw`^CREATE\s+(?:TEMPORARY\s+|TEMP\s+)?TABLE\s+(?:IF\s+NOT\s+EXISTS\s+)?(${NAME})`,
+  "i",
+);
+const CREATE_INDEX_PATTERN = new RegExp(
+  String.raw`^CREATE\s+(?:UNIQUE\s+)?INDEX\s+(?:CONCURRENTLY\s+)?(?:IF\s+NOT\s+EXISTS\s+)?(${NAME})\s+ON\s+(${NAME})`,
+  "i",
+);
+const CREATE_OBJECT_PATTERN = new RegExp(
+  String.raw`^CREATE\s+(TYPE|VIEW|MATERIALIZED\s+VIEW|SEQUENCE|SCHEMA|EXTENSION)\s+(?:IF\s+NOT\s+EXISTS\s+)?(${NAME})`,
+  "i",
+);
+const ALTER_TABLE_PATTERN = new RegExp(
+  String.raw`^ALTER\s+TABLE\s+(?:ONLY\s+)?(${NAME})\s+([\s\S]+)$`,
+  "i",
+);
+const ADD_CONSTRAINT_PATTERN = new RegExp(
+  String.raw`^ADD\s+CONSTRAINT\s+(${IDENTIFIER})`,
+  "i",
+);
+const ADD_COLUMN_PATTERN = new RegExp(
+  String.raw`^ADD\s+(?:COLUMN\s+)?(?:IF\s+NOT\s+EXISTS\s+)?(${IDENTIFIER})`,
+  "i",
+);
+const RENAME_COLUMN_PATTERN = new RegExp(
+  String.raw`^RENAME\s+COLUMN\s+(${IDENTIFIER})\s+TO\s+(${IDENTIFIER})$`,
+  "i",
+);
+const RENAME_TABLE_PATTERN = new RegExp(
+  String.raw`^RENAME\s+TO\s+(${IDENTIFIER})$`,
+  "i",
+);
+const NON_COLUMN_ADDITIONS =
+  /^ADD\s+(?:PRIMARY|FOREIGN|UNIQUE|CHECK|INDEX|KEY)\b/i;
+
+export interface InvertedMigration {
+  sql: string;
+  irreversible: string[];
+}
+
+type Inverter = (
+  statement: string,
+  provider?: DatabaseProvider,
+) => string | null;
+type ActionInverter = (action: string) => string | null;
+
+function invertCreateTable(statement: string): string | null {
+  const match = statement.match(CREATE_TABLE_PATTERN);
+  if (!match) return null;
+  return `DROP TABLE IF EXISTS ${match[1]};`;
+}
+
+function invertCreateIndex(
+  statement: string,
+  provider?: DatabaseProvider,
+): string | null {
+  const match = statement.match(CREATE_INDEX_PATTERN);
+  if (!match) return null;
+  const [, indexName, tableName] = match;
+  const isTableScoped = provider === "mysql" || provider === "sqlserver";
+  if (isTableScoped) return `DROP INDEX ${indexName} ON ${tableName};`;
+  return `DROP INDEX IF EXISTS ${indexName};`;
+}
+
+function invertCreateObject(statement: string): string | null {
+  const match = statement.match(CREATE_OBJECT_PATTERN);
+  if (!match) return null;
+  const objectType = match[1].toUpperCase().replace(/\s+/g, " ");
+  return `DROP ${objectType} IF EXISTS ${match[2]};`;
+}
+
+function invertAddConstraint(action: string): string | null {
+  const match = action.match(ADD_CONSTRAINT_PATTERN);
+  if (!match) return null;
+  return `DROP CONSTRAINT ${match[1]}`;
+}
+
+function invertAddColumn(action: string): string | null {
+  if (NON_COLUMN_ADDITIONS.test(action)) return null;
+  const match = action.match(ADD_COLUMN_PATTERN);
+  if (!match) return null;
+  return `DROP COLUMN ${match[1]}`;
+}
+
+function invertRenameColumn(action: string): string | null {
+  const match = action.match(RENAME_COLUMN_PATTERN);
+  if (!match) return null;
+  return `RENAME COLUMN ${match[2]} TO ${match[1]}`;
+}
+
+const ACTION_INVERTERS: ActionInverter[] = [
+  invertAddConstraint,
+  invertAddColumn,
+  invertRenameColumn,
+];
+
+function invertAction(action: string): string | null {
+  return ACTION_INVERTERS.reduce<string | null>((inverse, invert) => {
+    return inverse ?? invert(action);
+  }, null);
+}
+
+function invertAlterTable(statement: string): string | null {
+  const match = statement.match(ALTER_TABLE_PATTERN);
+  if (!match) return null;
+  const [, tableName, actions] = match;
+  const renameMatch = actions.trim().match(RENAME_TABLE_PATTERN);
+  if (renameMatch)
+    return `ALTER TABLE ${renameMatch[1]} RENAME TO ${tableName};`;
+  const inverses = splitSqlList(actions).map(invertAction);
+  const isInvertible = inverses.every((inverse) => inverse !== null);
+  if (!isInvertible) return null;
+  return `ALTER TABLE ${tableName} ${inverses.toReversed().join(", ")};`;
+}
+
+const INVERTERS: Inverter[] = [
+  invertCreateTable,
+  invertCreateIndex,
+  invertCreateObject,
+  invertAlterTable,
+];
+
+function invertStatement(
+  statement: string,
+  provider?: DatabaseProvider,
+): string | null {
+  const sql = stripLeadingComments(statement);
+  return INVERTERS.reduce<string | null>((inverse, invert) => {
+    return inverse ?? invert(sql, provider);
+  }, null);
+}
+
+export function invertMigrationSql(
+  sql: string,
+  provider?: DatabaseProvider,
+): InvertedMigration {
+  const statements = splitSqlStatements(sql);
+  const irreversible: string[] = [];
+  const inverses = statements.map((statement) => {
+    const inverse = invertStatement(statement, provider);
+    if (inverse) return inverse;
+    const summary = summarizeStatement(stripLeadingComments(statement));
+    irreversible.push(summary);
+    return `${IRREVERSIBLE_MARKER}: ${summary}`;
+  });
+  const sections = [GENERATED_HEADER, ...inverses.toReversed()];
+  return { sql: `${sections.join("\n\n")}\n`, irreversible };
+}
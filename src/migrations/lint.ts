@@ -0,0 +1,208 @@
+import { summarizeStatement } from "../utils";
+import type { DatabaseProvider } from "./dialect";
+import { splitSqlList, splitSqlStatements, stripLeadingComments } from "./sql";
+
+export type LintSeverity = "error" | "warn" | "off";
+export type LintRuleName =
+  | "drop-table"
+  | "drop-column"
+  | "not-null-without-default"
+  | "column-type-change"
+  | "non-concurrent-index"
+  | "truncate"
+  | "update-without-where"
+  | "delete-without-where"
+  | "irreversible";
+export type LintRules = Partial<Record<LintRuleName, LintSeverity>>;
+
+export interface LintIssue {
+  migration: string;
+  rule: LintRuleName;
+  severity: Exclude<LintSeverity, "off">;
+  statementNumber?: number;
+  statement?: string;
+  message: string;
+}
+
+interface LintContext {
+  provider?: DatabaseProvider;
+  createdTables: Set<string>;
+}
+
+interface LintRule {
+  name: LintRuleName;
+  message: string;
+  matches: (statement: string, context: LintContext) => boolean;
+}
+
+const IDENTIFIER_QUOTES = /["`[\]]/g;
+const CREATE_TABLE_PATTERN =
+  /^CREATE\s+(?:TEMPORARY\s+|TEMP\s+)?TABLE\s+(?:IF\s+NOT\s+EXISTS\s+)?(\S+?)\s*\(/i;
+const CREATE_INDEX_PATTERN =
+  /^CREATE\s+(?:UNIQUE\s+)?INDEX\s+(CONCURRENTLY\s+)?[\s\S]*?\bON\s+(?:ONLY\s+)?(\S+?)\s*(?:USING\b|\()/i;
+const ALTER_TABLE_PATTERN = /^ALTER\s+TABLE\s+(?:ONLY\s+)?\S+\s+([\s\S]+)$/i;
+const ADD_COLUMN_PATTERN =
+  /^ADD\s+(?!CONSTRAINT\b|PRIMARY\b|FOREIGN\b|UNIQUE\b|CHECK\b|INDEX\b|KEY\b)/i;
+const TYPE_CHANGE_PATTERN =
+  /^(?:ALTER\s+(?:COLUMN\s+)?\S+\s+(?:SET\s+DATA\s+)?TYPE\b|ALTER\s+COLUMN\s+\S+\s+(?!SET\b|DROP\b|ADD\b|RESTART\b|TYPE\b)\w|MODIFY\b|CHANGE\b)/i;
+const POSTGRES_PROVIDERS = new Set<DatabaseProvider>([
+  "postgresql",
+  "cockroachdb",
+]);
+
+export const LINT_RULE_NAMES: LintRuleName[] = [
+  "drop-table",
+  "drop-column",
+  "not-null-without-default",
+  "column-type-change",
+  "non-concurrent-index",
+  "truncate",
+  "update-without-where",
+  "delete-without-where",
+  "irreversible",
+];
+
+function readSeverity(rules: LintRules, rule: LintRuleName): LintSeverity {
+  return rules[rule] ?? "warn";
+}
+
+function normalizeTableName(name: string): string {
+  return name.replace(IDENTIFIER_QUOTES, "").toLowerCase();
+}
+
+function readAlterActions(statement: string): string[] {
+  const match = statement.match(ALTER_TABLE_PATTERN);
+  if (!match) return [];
+  return splitSqlList(match[1]);
+}
+
+function addsRequiredColumn(action: string): boolean {
+  if (!ADD_COLUMN_PATTERN.test(action)) return false;
+  const isRequired = /\bNOT\s+NULL\b/i.test(action);
+  const hasDefault = /\bDEFAULT\b/i.test(action);
+  return isRequired && !hasDefault;
+}
+
+function createsIndexLockingWrites(
+  statement: string,
+  context: LintContext,
+): boolean {
+  const isPostgres =
+    context.provider !== undefined && POSTGRES_PROVIDERS.has(context.provider);
+  if (!isPostgres) return false;
+  const match = statement.match(CREATE_INDEX_PATTERN);
+  if (!match) return false;
+  const isConcurrent = match[1] !== undefined;
+  const isNewTable = context.createdTables.has(normalizeTableName(match[2]));
+  return !isConcurrent && !isNewTable;
+}
+
+function lacksWhereClause(statement: string, keyword: string): boolean {
+  const isStatement = new RegExp(`^${keyword}\\b`, "i").test(statement);
+  if (!isStatement) return false;
+  return !/\bWHERE\b/i.test(statement);
+}
+
+const LINT_RULES: LintRule[] = [
+  {
+    name: "drop-table",
+    message: "Dropping a table permanently deletes its data",
+    matches: (statement) => /^DROP\s+TABLE\b/i.test(statement),
+  },
+  {
+    name: "drop-column",
+    message: "Dropping a column permanently deletes its data",
+    matches: (statement) => {
+      return readAlterActions(statement).some((action) => {
+        return /^DROP\s+COLUMN\b/i.test(action);
+      });
+    },
+  },
+  {
+    name: "not-null-without-default",
+    message:
+      "Adding a NOT NULL column without a default fails on tables with rows",
+    matches: (statement) => {
+      return readAlterActions(statement).some(addsRequiredColumn);
+    },
+  },
+  {
+    name: "column-type-change",
+    message: "Changing a column type can rewrite the table or lose data",
+    matches: (statement) => {
+      return readAlterActions(statement).some((action) => {
+        return TYPE_CHANGE_PATTERN.test(action);
+      });
+    },
+  },
+  {
+    name: "non-concurrent-index",
+    message:
+      "CREATE INDEX without CONCURRENTLY blocks writes while the index builds",
+    matches: createsIndexLockingWrites,
+  },
+  {
+    name: "truncate",
+    message: "TRUNCATE deletes every row in the table",
+    matches: (statement) => /^TRUNCATE\b/i.test(statement),
+  },
+  {
+    name: "update-without-where",
+    message: "UPDATE without WHERE changes every row in the table",
+    matches: (statement) => lacksWhereClause(statement, "UPDATE"),
+  },
+  {
+    name: "delete-without-where",
+    message: "DELETE without WHERE removes every row in the table",
+    matches: (statement) => lacksWhereClause(statement, "DELETE"),
+  },
+];
+
+function collectCreatedTables(statements: string[]): Set<string> {
+  const tables = statements.flatMap((statement) => {
+    const match = statement.match(CREATE_TABLE_PATTERN);
+    if (!match) return [];
+    return [normalizeTableName(match[1])];
+  });
+  return new Set(tables);
+}
+
+export function lintMigrationSql(
+  migration: string,
+  sql: string,
+  rules: LintRules = {},
+  provider?: DatabaseProvider,
+): LintIssue[] {
+  const statements = splitSqlStatements(sql).map(stripLeadingComments);
+  const context = { provider, createdTables: collectCreatedTables(statements) };
+  return statements.flatMap((statement, index) => {
+    return LINT_RULES.flatMap((rule) => {
+      const severity = readSeverity(rules, rule.name);
+      if (severity === "off") return [];
+      if (!rule.matches(statement, context)) return [];
+      const issue: LintIssue = {
+        migration,
+        rule: rule.name,
+        severity,
+        statementNumber: index + 1,
+        statement: summarizeStatement(statement),
+        message: rule.message,
+      };
+      return [issue];
+    });
+  });
+}
+
+export function lintIrreversibleMigration(
+  migration: string,
+  rules: LintRules = {},
+): LintIssue[] {
+  const severity = readSeverity(rules, "irreversible");
+  if (severity === "off") return [];
+  const message = "Migration is marked irreversible and cannot be rolled back";
+  return [{ migration, rule: "irreversible", severity, message }];
+}
+
+export function hasLintErrors(issues: LintIssue[]): boolean {
+  return issues.some((issue) => issue.severity === "error");
+}
@@ -0,0 +1,50 @@
+import { pathToFileURL } from "url";
+import { createTypeScriptMigrationError } from "../errors";
+import type { Migration, MigrationFunction } from "../types";
+import { formatMigration } from "../utils";
+import type { DiscoveredMigration } from "./discovery";
+
+type Direction = "up" | "down";
+type ModuleResult = Promise<Partial<Migration>>;
+type FunctionResult = Promise<MigrationFunction>;
+
+const TYPESCRIPT_FILE_PATTERN = /\.[cm]?ts$/;
+
+function hasMigrationExports(value: unknown): value is Partial<Migration> {
+  const isObject = typeof value === "object" && value !== null;
+  if (!isObject) return false;
+  return "up" in value || "down" in value;
+}
+
+function supportsTypeScriptImports(): boolean {
+  const isBun = typeof process.versions.bun === "string";
+  const features = process.features as { typescript?: unknown };
+  return isBun || Boolean(features.typescript);
+}
+
+function assertImportable(migration: DiscoveredMigration): void {
+  const isTypeScript = TYPESCRIPT_FILE_PATTERN.test(migration.path);
+  if (!isTypeScript || supportsTypeScriptImports()) return;
+  throw createTypeScriptMigrationError(formatMigration(migration));
+}
+
+async function importMigrationModule(path: string): ModuleResult {
+  const url = pathToFileURL(path).href;
+  const module = await import(url);
+  if (hasMigrationExports(module.default)) return module.default;
+  return module;
+}
+
+export async function loadMigrationFunction(
+  migration: DiscoveredMigration,
+  direction: Direction,
+): FunctionResult {
+  assertImportable(migration);
+  const module = await importMigrationModule(migration.path);
+  const fn = module[direction];
+  if (typeof fn === "function") return fn;
+  const migrationName = formatMigration(migration);
+  throw new Error(
+    `Migration ${migrationName} does not export a function named "${direction}"`,
+  );
+}
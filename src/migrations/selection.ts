@@ -0,0 +1,87 @@
+import type { DiscoveredMigration } from "./discovery";
+import type { MigrationPhase } from "../types";
+
+export type MigrationFilter = (migration: DiscoveredMigration) => boolean;
+
+export interface TagFilter {
+  include?: string[];
+  exclude?: string[];
+}
+
+export interface MigrationSelection {
+  environment?: string;
+  phase?: MigrationPhase;
+  tags?: TagFilter;
+}
+
+export const MIGRATION_PHASES: MigrationPhase[] = ["pre", "post"];
+
+export function readTagList(
+  value: unknown,
+  message: string,
+): string[] | undefined {
+  if (value === undefined) return undefined;
+  const isValid =
+    Array.isArray(value) &&
+    value.every((tag) => typeof tag === "string" && /^[^-\s]/.test(tag));
+  if (!isValid) throw new Error(message);
+  return (value as string[])
+    .flatMap((tag) => tag.split(","))
+    .map((tag) => tag.trim())
+    .filter(Boolean);
+}
+
+export function getMigrationPhase(
+  migration: DiscoveredMigration,
+): MigrationPhase {
+  return migration.metadata.phase ?? "pre";
+}
+
+function isEnabledForEnvironment(
+  migration: DiscoveredMigration,
+  environment: string | undefined,
+): boolean {
+  const environments = migration.metadata.environments;
+  if (!environments) return true;
+  if (!environment) return false;
+  return environments.includes(environment);
+}
+
+function isInPhase(
+  migration: DiscoveredMigration,
+  phase: MigrationPhase | undefined,
+): boolean {
+  if (!phase) return true;
+  return getMigrationPhase(migration) === phase;
+}
+
+function matchesTags(
+  migration: DiscoveredMigration,
+  tags: TagFilter | undefined,
+): boolean {
+  const migrationTags = migration.metadata.tags ?? [];
+  const include = tags?.include ?? [];
+  const exclude = tags?.exclude ?? [];
+  const isExcluded = migrationTags.some((tag) => exclude.includes(tag));
+  if (isExcluded) return false;
+  if (include.length === 0) return true;
+  return migrationTags.some((tag) => include.includes(tag));
+}
+
+export function createMigrationFilter(
+  selection: MigrationSelection,
+): MigrationFilter {
+  return (migration) => {
+    const isEnabled = isEnabledForEnvironment(migration, selection.environment);
+    const isSelected = matchesTags(migration, selection.tags);
+    return isEnabled && isSelected && isInPhase(migration, selection.phase);
+  };
+}
+
+export function orderByPhase(
+  migrations: DiscoveredMigration[],
+): DiscoveredMigration[] {
+  return MIGRATION_PHASES.flatMap((phase) => {
+    return migrations.filter((migration) => isInPhase(migration, phase));
+  });
+}
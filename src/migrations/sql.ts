@@ -1,4 +1,6 @@
 import { readFile } from "fs/promises";
+import type { MigrationPhase } from "../types";
+import { formatMigration } from "../utils";
 import type { DiscoveredMigration } from "./discovery";
 
 const DOLLAR_QUOTE_TAG_PATTERN = /^\$[A-Za-z_][A-Za-z0-9_]*\$|^\$\$/;
@@ -6,10 +8,193 @@ const BLOCK_COMMENT_PATTERN = /\/\*[\s\S]*?\*\//g;
 const LINE_COMMENT_PATTERN = /^\s*--.*$/gm;
 const UP_MARKER = "-- Migration: Up";
 const DOWN_MARKER = "-- Migration: Down";
+const LEADING_COMMENT_PATTERN = /^(?:\s*--[^\n]*\n|\s*\/\*[\s\S]*?\*\/)*/;
+const DIRECTIVE_PATTERN = /^(?:--|\/\/)\s*prisma-migrations:(.*)$/;
+const IRREVERSIBLE_MARKER_PATTERN = /^\s*--\s*irreversible\s*$/im;
+const DURATION_PATTERN = /^(\d+)(ms|s|min)?$/;
+const DURATION_UNITS: Record<string, number> = { ms: 1, s: 1000, min: 60000 };
+const DIRECTIVE_KEYS = new Set([
+  "transaction",
+  "statement_timeout",
+  "lock_timeout",
+  "search_path",
+  "environments",
+  "depends_on",
+  "squashes",
+  "irreversible",
+  "phase",
+  "tags",
+]);
+const MIGRATION_PHASES = new Set(["pre", "post"]);
+
+export type MigrationDirectives = Record<string, string>;
+
+export interface MigrationMetadata {
+  transaction: boolean;
+  statementTimeout?: number;
+  lockTimeout?: number;
+  searchPath?: string;
+  environments?: string[];
+  dependsOn?: string[];
+  squashes?: string[];
+  irreversible?: boolean;
+  phase?: MigrationPhase;
+  tags?: string[];
+}
+
+export interface MigrationScript {
+  statements: string[];
+  metadata: MigrationMetadata;
+}
 
 type Direction = "up" | "down";
 type SqlResult = Promise<string>;
+type OptionalSqlResult = Promise<string | undefined>;
 type StatementResult = Promise<string[]>;
+type ScriptResult = Promise<MigrationScript>;
+type BooleanResult = Promise<boolean>;
+
+function isHeaderLine(line: string): boolean {
+  if (line.length === 0) return true;
+  return line.startsWith("--") || line.startsWith("//");
+}
+
+function parseDirectiveEntry(entry: string): [string, string] {
+  const separatorIndex = entry.indexOf("=");
+  if (separatorIndex < 0) return [entry, "true"];
+  const key = entry.slice(0, separatorIndex);
+  const value = entry.slice(separatorIndex + 1);
+  return [key, value];
+}
+
+export function parseDirectives(sql: string): MigrationDirectives {
+  const lines = sql.split(/\r?\n/).map((line) => line.trim());
+  const firstStatementIndex = lines.findIndex((line) => !isHeaderLine(line));
+  const headerEnd =
+    firstStatementIndex < 0 ? lines.length : firstStatementIndex;
+  const entries = lines.slice(0, headerEnd).flatMap((line) => {
+    const match = line.match(DIRECTIVE_PATTERN);
+    if (!match) return [];
+    return match[1].trim().split(/\s+/).filter(Boolean);
+  });
+  return Object.fromEntries(entries.map(parseDirectiveEntry));
+}
+
+function assertKnownDirectives(directives: MigrationDirectives): void {
+  const unknownKey = Object.keys(directives).find((key) => {
+    return !DIRECTIVE_KEYS.has(key);
+  });
+  if (!unknownKey) return;
+  throw new Error(`Unknown directive "${unknownKey}"`);
+}
+
+function readBooleanDirective(
+  value: string | undefined,
+  name: string,
+  fallback: boolean,
+): boolean {
+  if (value === undefined) return fallback;
+  if (value === "true") return true;
+  if (value === "false") return false;
+  throw new Error(`Invalid ${name} directive "${value}"`);
+}
+
+function readDurationDirective(
+  value: string | undefined,
+  name: string,
+): number | undefined {
+  if (value === undefined) return undefined;
+  const match = value.match(DURATION_PATTERN);
+  if (!match) throw new Error(`Invalid ${name} directive "${value}"`);
+  const unit = match[2] ?? "ms";
+  return Number(match[1]) * DURATION_UNITS[unit];
+}
+
+function readListDirective(value: string | undefined): string[] | undefined {
+  if (value === undefined) return undefined;
+  const items = value.split(",").map((item) => item.trim());
+  return items.filter(Boolean);
+}
+
+function readPhaseDirective(
+  value: string | undefined,
+): MigrationPhase | undefined {
+  if (value === undefined) return undefined;
+  if (MIGRATION_PHASES.has(value)) return value as MigrationPhase;
+  throw new Error(`Invalid phase directive "${value}"`);
+}
+
+export function parseMigrationMetadata(sql: string): MigrationMetadata {
+  const directives = parseDirectives(sql);
+  assertKnownDirectives(directives);
+  const transaction = readBooleanDirective(
+    directives.transaction,
+    "transaction",
+    true,
+  );
+  const statementTimeout = readDurationDirective(
+    directives.statement_timeout,
+    "statement_timeout",
+  );
+  const lockTimeout = readDurationDirective(
+    directives.lock_timeout,
+    "lock_timeout",
+  );
+  const searchPath = directives.search_path;
+  const environments = readListDirective(directives.environments);
+  const dependsOn = readListDirective(directives.depends_on);
+  const squashes = readListDirective(directives.squashes);
+  const irreversible = readBooleanDirective(
+    directives.irreversible,
+    "irreversible",
+    false,
+  );
+  const phase = readPhaseDirective(directives.phase);
+  const tags = readListDirective(directives.tags);
+  return {
+    transaction,
+    statementTimeout,
+    lockTimeout,
+    searchPath,
+    environments,
+    dependsOn,
+    squashes,
+    irreversible,
+    phase,
+    tags,
+  };
+}
+
+export function stripDirectives(sql: string): string {
+  const lines = sql.split(/\r?\n/);
+  const statementLines = lines.filter((line) => {
+    return !DIRECTIVE_PATTERN.test(line.trim());
+  });
+  return statementLines.join("\n").trim();
+}
+
+export function stripLeadingComments(statement: string): string {
+  return statement.replace(LEADING_COMMENT_PATTERN, "").trim();
+}
+
+export function splitSqlList(sql: string): string[] {
+  const parts: string[] = [];
+  let depth = 0;
+  let start = 0;
+  let quoted = false;
+  [...sql].forEach((char, index) => {
+    if (char === "'") quoted = !quoted;
+    if (quoted) return;
+    if (char === "(") depth++;
+    if (char === ")") depth--;
+    const isSeparator = char === "," && depth === 0;
+    if (!isSeparator) return;
+    parts.push(sql.slice(start, index).trim());
+    start = index + 1;
+  });
+  parts.push(sql.slice(start).trim());
+  return parts;
+}
 
 function parseLegacyMigration(sql: string, direction: Direction): string {
   const upIndex = sql.indexOf(UP_MARKER);
@@ -23,7 +208,7 @@ function parseLegacyMigration(sql: string, direction: Direction): string {
   return sql.slice(downIndex + DOWN_MARKER.length).trim();
 }
 
-function hasExecutableSql(sql: string): boolean {
+export function hasExecutableSql(sql: string): boolean {
   const withoutBlockComments = sql.replace(BLOCK_COMMENT_PATTERN, "");
   const withoutComments = withoutBlockComments.replace(
     LINE_COMMENT_PATTERN,
@@ -184,7 +369,7 @@ export function splitSqlStatements(sql: string): string[] {
   return new SqlSplitter(sql).split();
 }
 
-async function readDirectionalSql(
+export async function loadMigrationSql(
   migration: DiscoveredMigration,
   direction: Direction,
 ): SqlResult {
@@ -197,16 +382,76 @@ async function readDirectionalSql(
   return readFile(migration.downPath, "utf-8");
 }
 
-export async function loadMigrationStatements(
+export async function loadInvariantStatements(
+  path: string | undefined,
+): StatementResult {
+  if (!path) return [];
+  const sql = await readFile(path, "utf-8");
+  return splitSqlStatements(sql);
+}
+
+export async function loadConditionQuery(
+  path: string | undefined,
+): OptionalSqlResult {
+  if (!path) return undefined;
+  const sql = await readFile(path, "utf-8");
+  const statements = splitSqlStatements(sql);
+  if (statements.length === 1) return statements[0];
+  throw new Error("condition.sql must contain exactly one query");
+}
+
+export function isIrreversibleMarker(sql: string): boolean {
+  if (hasExecutableSql(sql)) return false;
+  return IRREVERSIBLE_MARKER_PATTERN.test(sql);
+}
+
+export async function isIrreversibleMigration(
+  migration: DiscoveredMigration,
+): BooleanResult {
+  if (migration.metadata.irreversible) return true;
+  if (migration.format === "module") return false;
+  const sql = await loadMigrationSql(migration, "down");
+  return isIrreversibleMarker(sql);
+}
+
+export async function hasRollbackStatements(
+  migration: DiscoveredMigration,
+): BooleanResult {
+  if (migration.format === "module") return true;
+  const sql = await loadMigrationSql(migration, "down");
+  return hasExecutableSql(stripDirectives(sql));
+}
+
+function readDirectionalMetadata(
   migration: DiscoveredMigration,
   direction: Direction,
-): StatementResult {
-  const sql = await readDirectionalSql(migration, direction);
+  sql: string,
+): MigrationMetadata {
+  const usesFileHeader = direction === "up" || migration.format === "legacy";
+  if (usesFileHeader) return migration.metadata;
+  return parseMigrationMetadata(sql);
+}
+
+function requireStatements(
+  migration: DiscoveredMigration,
+  direction: Direction,
+  sql: string,
+): string[] {
   const statements = splitSqlStatements(sql);
   if (statements.length > 0) return statements;
-  const migrationName = `${migration.id}_${migration.name}`;
+  const migrationName = formatMigration(migration);
   const kind = direction === "up" ? "forward" : "rollback";
   throw new Error(
     `Migration ${migrationName} does not have executable ${kind} SQL`,
   );
 }
+
+export async function loadMigrationScript(
+  migration: DiscoveredMigration,
+  direction: Direction,
+): ScriptResult {
+  const sql = await loadMigrationSql(migration, direction);
+  const statements = requireStatements(migration, direction, sql);
+  const metadata = readDirectionalMetadata(migration, direction, sql);
+  return { statements, metadata };
+}
@@ -0,0 +1,135 @@
+import { mkdir, rename, rm, writeFile } from "fs/promises";
+import { basename, dirname, join } from "path";
+import { formatMigration } from "../utils";
+import { hasSessionSettings } from "./dialect";
+import type { DiscoveredMigration } from "./discovery";
+import {
+  hasRollbackStatements,
+  isIrreversibleMigration,
+  loadMigrationSql,
+  stripDirectives,
+} from "./sql";
+
+const ARCHIVE_DIRECTORY = "_archive";
+const SQUASH_NAME = "squashed";
+
+export interface MigrationSquash {
+  directoryName: string;
+  upSql: string;
+  downSql: string;
+  squashes: string[];
+  irreversible: string[];
+}
+
+type Direction = "up" | "down";
+type SquashResult = Promise<MigrationSquash>;
+type SectionResult = Promise<string>;
+type VoidResult = Promise<void>;
+type BooleanResult = Promise<boolean>;
+
+function assertSquashable(migration: DiscoveredMigration): void {
+  const migrationName = formatMigration(migration);
+  if (migration.format === "module") {
+    throw new Error(
+      `Cannot squash ${migrationName}: TypeScript and JavaScript migrations cannot be combined`,
+    );
+  }
+  const metadata = migration.metadata;
+  const hasIsolatedDirectives =
+    !metadata.transaction ||
+    hasSessionSettings(metadata) ||
+    metadata.environments !== undefined;
+  if (!hasIsolatedDirectives) return;
+  throw new Error(
+    `Cannot squash ${migrationName}: its directives only apply to that migration`,
+  );
+}
+
+async function loadSection(
+  migration: DiscoveredMigration,
+  direction: Direction,
+): SectionResult {
+  const sql = await loadMigrationSql(migration, direction);
+  const statements = stripDirectives(sql);
+  const migrationName = formatMigration(migration);
+  if (statements.length === 0) return `-- ${migrationName}: no rollback SQL`;
+  return `-- ${migrationName}\n${statements}`;
+}
+
+async function hasReversibleDown(
+  migration: DiscoveredMigration,
+): BooleanResult {
+  const isIrreversible = await isIrreversibleMigration(migration);
+  if (isIrreversible) return false;
+  return hasRollbackStatements(migration);
+}
+
+function buildIrreversibleDown(irreversible: string[]): string {
+  return `-- irreversible\n-- No rollback SQL for ${irreversible.join(", ")}\n`;
+}
+
+function collectSquashedNames(migrations: DiscoveredMigration[]): string[] {
+  return migrations.flatMap((migration) => {
+    const nested = migration.metadata.squashes ?? [];
+    return [...nested, formatMigration(migration)];
+  });
+}
+
+export async function buildSquash(
+  migrations: DiscoveredMigration[],
+  target: DiscoveredMigration,
+): SquashResult {
+  if (migrations.length < 2) {
+    throw new Error("At least two migrations are needed to squash");
+  }
+  migrations.forEach(assertSquashable);
+  const squashes = collectSquashedNames(migrations);
+  const header = `-- prisma-migrations: squashes=${squashes.join(",")}`;
+  const upSections = await Promise.all(
+    migrations.map((migration) => loadSection(migration, "up")),
+  );
+  const rollbacks = await Promise.all(migrations.map(hasReversibleDown));
+  const irreversible = migrations
+    .filter((_, index) => !rollbacks[index])
+    .map(formatMigration);
+  const downSections = await Promise.all(
+    migrations.toReversed().map((migration) => loadSection(migration, "down")),
+  );
+  const upSql = `${[header, ...upSections].join("\n\n")}\n`;
+  const downSql =
+    irreversible.length > 0
+      ? buildIrreversibleDown(irreversible)
+      : `${downSections.join("\n\n")}\n`;
+  const directoryName = `${target.id}_${SQUASH_NAME}`;
+  return { directoryName, upSql, downSql, squashes, irreversible };
+}
+
+async function writeSquashDirectory(
+  squashDir: string,
+  squash: MigrationSquash,
+): VoidResult {
+  await mkdir(squashDir);
+  try {
+    await writeFile(join(squashDir, "migration.sql"), squash.upSql);
+    await writeFile(join(squashDir, "down.sql"), squash.downSql);
+  } catch (error) {
+    await rm(squashDir, { recursive: true, force: true });
+    throw error;
+  }
+}
+
+export async function writeSquash(
+  migrationsDir: string,
+  migrations: DiscoveredMigration[],
+  squash: MigrationSquash,
+): VoidResult {
+  await writeSquashDirectory(join(migrationsDir, squash.directoryName), squash);
+  const archiveDir = join(migrationsDir, ARCHIVE_DIRECTORY);
+  await mkdir(archiveDir, { recursive: true });
+  await Promise.all(
+    migrations.map((migration) => {
+      const directory = dirname(migration.path);
+      return rename(directory, join(archiveDir, basename(directory)));
+    }),
+  );
+}
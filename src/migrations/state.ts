@@ -10,29 +10,85 @@ import {
   getAppliedMigrationId,
   getAppliedMigrationName,
   isAppliedMigration,
+  isFailedMigration,
+  isRepeatableMigrationRow,
+  isSkippedMigrationRow,
   MigrationHistory,
+  parseMigrationDirectoryName,
 } from "./history";
+import { indexSquashedMigrations } from "./graph";
+import {
+  getMigrationPhase,
+  MIGRATION_PHASES,
+  type MigrationFilter,
+} from "./selection";
 
 export interface MigrationState {
   all: DiscoveredMigration[];
+  included: DiscoveredMigration[];
   appliedRows: AppliedMigrationRow[];
   appliedIds: string[];
+  failedRows: AppliedMigrationRow[];
+  skippedIds: string[];
+  repeatables: RepeatableState[];
+}
+
+export interface RepeatableState {
+  migration: DiscoveredMigration;
+  checksum: string;
+  appliedChecksum?: string;
+  included: boolean;
+}
+
+export interface MigrationStateOptions {
+  validateChecksums: boolean;
+  filter: MigrationFilter;
+  allowOutOfOrder: boolean;
+  allowFailed?: boolean;
 }
 
 type StateResult = Promise<MigrationState>;
+type RepeatableStatesResult = Promise<RepeatableState[]>;
 type VoidResult = Promise<void>;
 
 function assertAppliedFilesExist(
   all: DiscoveredMigration[],
-  rows: AppliedMigrationRow[],
+  appliedIds: string[],
 ): void {
   const migrationIds = new Set(all.map((migration) => migration.id));
-  const missing = rows.find((row) => {
-    return !migrationIds.has(getAppliedMigrationId(row));
+  const missingId = appliedIds.find((id) => !migrationIds.has(id));
+  if (!missingId) return;
+  throw createMigrationNotFoundError(missingId);
+}
+
+function assertSquashesComplete(
+  all: DiscoveredMigration[],
+  rowIds: string[],
+): void {
+  const applied = new Set(rowIds);
+  all.forEach((migration) => {
+    const squashes = migration.metadata.squashes ?? [];
+    const squashedIds = squashes.map((name) => {
+      return parseMigrationDirectoryName(name)?.id ?? name;
+    });
+    const appliedCount = squashedIds.filter((id) => applied.has(id)).length;
+    const isPartlyApplied =
+      appliedCount > 0 &&
+      appliedCount < squashedIds.length &&
+      !applied.has(migration.id);
+    if (!isPartlyApplied) return;
+    throw new Error(
+      `Migration ${migration.id} squashes migrations that are only partly applied; apply the archived migrations first`,
+    );
   });
-  if (!missing) return;
-  const id = getAppliedMigrationId(missing);
-  throw createMigrationNotFoundError(id);
+}
+
+function resolveAppliedIds(
+  rowIds: string[],
+  squashedBy: Map<string, string>,
+): string[] {
+  const ids = rowIds.map((id) => squashedBy.get(id) ?? id);
+  return ids.filter((id, index) => ids.indexOf(id) === index);
 }
 
 function assertLinearHistory(
@@ -50,10 +106,23 @@ function assertLinearHistory(
   if (!laterApplied) return;
   const firstPending = all[firstPendingIndex];
   throw new Error(
-    `Migration history is out of order: ${laterApplied.id} is applied before ${firstPending.id}`,
+    `Migration history is out of order: ${laterApplied.id} is applied before ${firstPending.id}. ` +
+      'Set "allowOutOfOrder" to apply older pending migrations.',
   );
 }
 
+function assertLinearPhases(
+  included: DiscoveredMigration[],
+  appliedIds: string[],
+): void {
+  MIGRATION_PHASES.forEach((phase) => {
+    const migrations = included.filter((migration) => {
+      return getMigrationPhase(migration) === phase;
+    });
+    assertLinearHistory(migrations, appliedIds);
+  });
+}
+
 async function validateChecksums(
   all: DiscoveredMigration[],
   rows: AppliedMigrationRow[],
@@ -72,18 +141,80 @@ async function validateChecksums(
   }, Promise.resolve());
 }
 
+function indexAppliedChecksums(
+  rows: AppliedMigrationRow[],
+): Map<string, string | undefined> {
+  const entries = rows.map((row) => {
+    const entry: [string, string | undefined] = [
+      row.migration_name!,
+      row.checksum,
+    ];
+    return entry;
+  });
+  return new Map(entries);
+}
+
+async function loadRepeatableStates(
+  repository: MigrationRepository,
+  rows: AppliedMigrationRow[],
+  filter: MigrationFilter,
+): RepeatableStatesResult {
+  const repeatables = await repository.repeatables();
+  const appliedChecksums = indexAppliedChecksums(rows);
+  return Promise.all(
+    repeatables.map(async (migration) => {
+      const checksum = await generateChecksum(migration.path);
+      const appliedChecksum = appliedChecksums.get(migration.id);
+      const included = filter(migration);
+      return { migration, checksum, appliedChecksum, included };
+    }),
+  );
+}
+
+export function isRepeatableChanged(state: RepeatableState): boolean {
+  return state.checksum !== state.appliedChecksum;
+}
+
 export async function loadMigrationState(
   repository: MigrationRepository,
   history: MigrationHistory,
-  shouldValidateChecksums: boolean,
+  options: MigrationStateOptions,
 ): StateResult {
   const all = await repository.all();
+  const included = all.filter(options.filter);
   const rows = await history.rows();
-  history.assertNoFailedMigrations(rows);
-  const appliedRows = rows.filter(isAppliedMigration);
-  const appliedIds = appliedRows.map(getAppliedMigrationId);
-  assertAppliedFilesExist(all, appliedRows);
-  assertLinearHistory(all, appliedIds);
-  if (shouldValidateChecksums) await validateChecksums(all, appliedRows);
-  return { all, appliedRows, appliedIds };
+  if (!options.allowFailed) history.assertNoFailedMigrations(rows);
+  const failedRows = rows.filter(isFailedMigration);
+  const completedRows = rows.filter(isAppliedMigration);
+  const appliedRows = completedRows.filter((row) => {
+    return !isRepeatableMigrationRow(row);
+  });
+  const repeatableRows = completedRows.filter(isRepeatableMigrationRow);
+  const rowIds = appliedRows.map(getAppliedMigrationId);
+  const skippedIds = appliedRows
+    .filter(isSkippedMigrationRow)
+    .map(getAppliedMigrationId);
+  const squashedBy = indexSquashedMigrations(all);
+  assertSquashesComplete(all, rowIds);
+  const appliedIds = resolveAppliedIds(rowIds, squashedBy);
+  assertAppliedFilesExist(all, appliedIds);
+  if (!options.allowOutOfOrder) assertLinearPhases(included, appliedIds);
+  const currentRows = appliedRows.filter((row) => {
+    return !squashedBy.has(getAppliedMigrationId(row));
+  });
+  if (options.validateChecksums) await validateChecksums(all, currentRows);
+  const repeatables = await loadRepeatableStates(
+    repository,
+    repeatableRows,
+    options.filter,
+  );
+  return {
+    all,
+    included,
+    appliedRows,
+    appliedIds,
+    failedRows,
+    skippedIds,
+    repeatables,
+  };
 }
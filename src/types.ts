@@ -8,6 +8,7 @@ export interface PrismaMigrationClient {
     query: TemplateStringsArray,
     ...values: unknown[]
   ): Promise<T>;
+  $queryRawUnsafe<T = unknown>(query: string, ...values: unknown[]): Promise<T>;
 }
 
 export interface PrismaClient extends PrismaMigrationClient {
@@ -27,15 +28,30 @@ export interface Migration {
   down: MigrationFunction;
 }
 
+export type MigrationFormat = "prisma" | "legacy" | "module";
+export type MigrationKind = "versioned" | "repeatable";
+
 export interface MigrationFile {
   id: string;
   name: string;
   path: string;
   downPath?: string;
-  format?: "prisma" | "legacy";
+  checkPath?: string;
+  verifyPath?: string;
+  conditionPath?: string;
+  format?: MigrationFormat;
+  kind?: MigrationKind;
 }
 
+export type MigrationPhase = "pre" | "post";
+
 export interface MigrationStatus {
   migration: MigrationFile;
   applied: boolean;
+  excluded?: boolean;
+  changed?: boolean;
+  irreversible?: boolean;
+  failed?: boolean;
+  skipped?: boolean;
+  phase?: MigrationPhase;
 }
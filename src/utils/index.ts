@@ -1,5 +1,5 @@
 import { createHash } from "crypto";
-import { readFile } from "fs/promises";
+import { access, readFile } from "fs/promises";
 import type { MigrationFile } from "../types";
 
 export function generateMigrationId(): string {
@@ -13,14 +13,35 @@ export function validateMigrationName(name: string): boolean {
 }
 
 export function formatMigration(m: MigrationFile): string {
+  if (m.kind === "repeatable") return m.id;
   return `${m.id}_${m.name}`;
 }
 
+export function summarizeStatement(statement: string): string {
+  const singleLine = statement.replace(/\s+/g, " ").trim();
+  if (singleLine.length <= 120) return singleLine;
+  return `${singleLine.slice(0, 117)}...`;
+}
+
 export async function generateChecksum(filePath: string): Promise<string> {
   const content = await readFile(filePath, "utf-8");
   return createHash("sha256").update(content).digest("hex");
 }
 
+export function generateStatementsChecksum(statements: string[]): string {
+  const content = JSON.stringify(statements);
+  return createHash("sha256").update(content).digest("hex");
+}
+
+export async function pathExists(path: string): Promise<boolean> {
+  try {
+    await access(path);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
 export { spinner, Spinner } from "./spinner";
 export { createTable } from "./table";
 export { colors } from "./colors";
@@ -58,6 +58,7 @@ export class Spinner {
   }
 
   set text(value: string) {
+    if (this.isSpinning) this.clear();
     this._text = value;
   }
 }
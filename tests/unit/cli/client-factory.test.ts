@@ -1,5 +1,8 @@
 import { describe, expect, mock, test } from "bun:test";
-import { createPrismaClient } from "../../../src/cli/client-factory";
+import {
+  createPrismaClient,
+  supportsDefaultClient,
+} from "../../../src/cli/client-factory";
 import type { PrismaClient } from "../../../src/types";
 
 describe("createPrismaClient", () => {
@@ -23,4 +26,8 @@ describe("createPrismaClient", () => {
       "Prisma 7 requires a generated client factory",
     );
   });
+
+  test("reports that Prisma 7 has no default client", () => {
+    expect(supportsDefaultClient()).toBe(false);
+  });
 });
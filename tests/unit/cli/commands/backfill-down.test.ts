@@ -0,0 +1,84 @@
+import { afterEach, beforeEach, describe, expect, test } from "bun:test";
+import { existsSync, mkdirSync, readFileSync, rmSync, writeFileSync } from "fs";
+import { join } from "path";
+import { backfillMigrations } from "../../../../src/cli/commands/backfill-down";
+import { MigrationRepository } from "../../../../src/migrations/discovery";
+
+const testMigrationsDir = join(process.cwd(), "test-backfill-migrations");
+
+function createMigration(directory: string, sql: string, downSql?: string) {
+  const migrationDir = join(testMigrationsDir, directory);
+  mkdirSync(migrationDir, { recursive: true });
+  writeFileSync(join(migrationDir, "migration.sql"), sql);
+  if (downSql === undefined) return;
+  writeFileSync(join(migrationDir, "down.sql"), downSql);
+}
+
+describe("backfill-down command", () => {
+  beforeEach(() => {
+    rmSync(testMigrationsDir, { recursive: true, force: true });
+    mkdirSync(testMigrationsDir, { recursive: true });
+  });
+
+  afterEach(() => {
+    rmSync(testMigrationsDir, { recursive: true, force: true });
+  });
+
+  test("should write rollbacks for migrations without down.sql", async () => {
+    createMigration("001_users", "CREATE TABLE users (id INT);");
+    createMigration(
+      "002_posts",
+      "CREATE TABLE posts (id INT);",
+      "DROP TABLE posts;",
+    );
+    createMigration("003_template", "CREATE TABLE tags (id INT);", "-- TODO");
+    const migrations = await new MigrationRepository(testMigrationsDir).all();
+
+    const result = await backfillMigrations(migrations);
+
+    expect(result.written).toEqual(["001_users", "003_template"]);
+    const downSql = readFileSync(
+      join(testMigrationsDir, "001_users", "down.sql"),
+      "utf-8",
+    );
+    expect(downSql).toContain("DROP TABLE IF EXISTS users;");
+    const untouched = readFileSync(
+      join(testMigrationsDir, "002_posts", "down.sql"),
+      "utf-8",
+    );
+    expect(untouched).toBe("DROP TABLE posts;");
+  });
+
+  test("should skip migrations marked irreversible", async () => {
+    createMigration(
+      "001_purge",
+      "-- prisma-migrations: irreversible\nDELETE FROM sessions;",
+    );
+    createMigration("002_drop", "DROP TABLE logs;", "-- irreversible\n");
+    const migrations = await new MigrationRepository(testMigrationsDir).all();
+
+    const result = await backfillMigrations(migrations);
+
+    expect(result.written).toEqual([]);
+    expect(existsSync(join(testMigrationsDir, "001_purge", "down.sql"))).toBe(
+      false,
+    );
+  });
+
+  test("should report migrations that need manual attention", async () => {
+    createMigration("001_backfill", "UPDATE users SET active = true;");
+    const migrations = await new MigrationRepository(testMigrationsDir).all();
+
+    const result = await backfillMigrations(migrations);
+
+    expect(result.manual).toEqual([
+      {
+        migration: "001_backfill",
+        statements: ["UPDATE users SET active = true"],
+      },
+    ]);
+    expect(
+      existsSync(join(testMigrationsDir, "001_backfill", "down.sql")),
+    ).toBe(true);
+  });
+});
@@ -0,0 +1,103 @@
+import { afterEach, beforeEach, describe, expect, test } from "bun:test";
+import { existsSync, mkdirSync, readFileSync, rmSync, writeFileSync } from "fs";
+import { join } from "path";
+import { convertFlywayMigrations } from "../../../../src/cli/commands/convert";
+import { MigrationRepository } from "../../../../src/migrations/discovery";
+import { formatMigration } from "../../../../src/utils";
+
+const testMigrationsDir = join(process.cwd(), "test-convert-migrations");
+
+function createFile(fileName: string, sql: string) {
+  writeFileSync(join(testMigrationsDir, fileName), sql);
+}
+
+function readMigrationFile(directory: string, fileName: string): string {
+  return readFileSync(join(testMigrationsDir, directory, fileName), "utf-8");
+}
+
+describe("convert command", () => {
+  beforeEach(() => {
+    rmSync(testMigrationsDir, { recursive: true, force: true });
+    mkdirSync(testMigrationsDir, { recursive: true });
+  });
+
+  afterEach(() => {
+    rmSync(testMigrationsDir, { recursive: true, force: true });
+  });
+
+  test("should rewrite Flyway files into migration directories", async () => {
+    createFile("V1.10__add_index.sql", "CREATE INDEX users_email ON users;");
+    createFile("V1__create_users.sql", "CREATE TABLE users (id INT);");
+    createFile("U1__create_users.sql", "DROP TABLE users;");
+
+    const converted = await convertFlywayMigrations(testMigrationsDir);
+
+    expect(converted).toEqual([
+      { from: "V1__create_users.sql", to: "1_create_users" },
+      { from: "V1.10__add_index.sql", to: "1.10_add_index" },
+    ]);
+    expect(readMigrationFile("1_create_users", "migration.sql")).toBe(
+      "CREATE TABLE users (id INT);",
+    );
+    expect(readMigrationFile("1_create_users", "down.sql")).toBe(
+      "DROP TABLE users;",
+    );
+    expect(
+      existsSync(join(testMigrationsDir, "1.10_add_index", "down.sql")),
+    ).toBe(false);
+    expect(existsSync(join(testMigrationsDir, "V1__create_users.sql"))).toBe(
+      false,
+    );
+    expect(existsSync(join(testMigrationsDir, "U1__create_users.sql"))).toBe(
+      false,
+    );
+  });
+
+  test("should keep the names recorded under the Flyway layout", async () => {
+    createFile("V1.10__add_index.sql", "CREATE INDEX users_email ON users;");
+    createFile("V1.2__add_email.sql", "ALTER TABLE users ADD email TEXT;");
+    createFile("V1__create_users.sql", "CREATE TABLE users (id INT);");
+    const flyway = new MigrationRepository(testMigrationsDir, "flyway");
+    const recorded = (await flyway.all()).map(formatMigration);
+
+    await convertFlywayMigrations(testMigrationsDir);
+
+    const converted = new MigrationRepository(testMigrationsDir);
+    expect((await converted.all()).map(formatMigration)).toEqual(recorded);
+    expect(recorded).toEqual([
+      "1_create_users",
+      "1.2_add_email",
+      "1.10_add_index",
+    ]);
+  });
+
+  test("should keep every Flyway file when a copy fails", async () => {
+    createFile("V1__create_users.sql", "CREATE TABLE users (id INT);");
+    createFile("U1__create_users.sql", "DROP TABLE users;");
+    createFile("V2__create_posts.sql", "CREATE TABLE posts (id INT);");
+    mkdirSync(join(testMigrationsDir, "U2__create_posts.sql"));
+
+    await expect(convertFlywayMigrations(testMigrationsDir)).rejects.toThrow();
+
+    expect(existsSync(join(testMigrationsDir, "V1__create_users.sql"))).toBe(
+      true,
+    );
+    expect(existsSync(join(testMigrationsDir, "U1__create_users.sql"))).toBe(
+      true,
+    );
+    expect(existsSync(join(testMigrationsDir, "1_create_users"))).toBe(false);
+    expect(existsSync(join(testMigrationsDir, "2_create_posts"))).toBe(false);
+  });
+
+  test("should refuse to overwrite existing directories", async () => {
+    createFile("V1__create_users.sql", "CREATE TABLE users (id INT);");
+    mkdirSync(join(testMigrationsDir, "1_create_users"));
+
+    await expect(convertFlywayMigrations(testMigrationsDir)).rejects.toThrow(
+      "Cannot convert: 1_create_users already exists",
+    );
+    expect(existsSync(join(testMigrationsDir, "V1__create_users.sql"))).toBe(
+      true,
+    );
+  });
+});
@@ -9,7 +9,6 @@ import {
   dev,
   execPrismaCommand,
   generate,
-  resolveMigration,
 } from "../../../../src/cli/commands/prisma";
 
 const directories: string[] = [];
@@ -130,38 +129,6 @@ describe("Prisma command wrappers", () => {
     });
   });
 
-  test("passes migrate resolve arguments", async () => {
-    const root = await createPrismaInstallation();
-
-    await withinDirectory(root, async () => {
-      await resolveMigration({ applied: "20240101_create_users" });
-      const appliedArgs = [
-        "migrate",
-        "resolve",
-        "--applied",
-        "20240101_create_users",
-      ];
-      await expectCommand(root, appliedArgs);
-      await resolveMigration({ rolledBack: "20240101_create_users" });
-      const rolledBackArgs = [
-        "migrate",
-        "resolve",
-        "--rolled-back",
-        "20240101_create_users",
-      ];
-      await expectCommand(root, rolledBackArgs);
-    });
-  });
-
-  test("omits unset migrate resolve arguments", async () => {
-    const root = await createPrismaInstallation();
-
-    await withinDirectory(root, async () => {
-      await resolveMigration({});
-      await expectCommand(root, ["migrate", "resolve"]);
-    });
-  });
-
   test("runs deploy and generate", async () => {
     const root = await createPrismaInstallation();
 
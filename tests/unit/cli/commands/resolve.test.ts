@@ -0,0 +1,87 @@
+import { describe, expect, mock, test } from "bun:test";
+import {
+  interactiveResolve,
+  runResolveAction,
+  type ResolveDependencies,
+} from "../../../../src/cli/commands/resolve";
+import type { Migrations } from "../../../../src/migrations";
+
+function createMockDeps(
+  overrides: Partial<ResolveDependencies> = {},
+): ResolveDependencies {
+  return {
+    getMigrationId: mock(() => Promise.resolve("002")),
+    getAction: mock(() => Promise.resolve("retry")),
+    ...overrides,
+  };
+}
+
+function createMockMigrations(failedIds: string[]) {
+  const failed = failedIds.map((id) => {
+    const migration = { id, name: `migration_${id}`, path: `/path/${id}` };
+    return { migration, missing: false, logs: "boom", appliedStepsCount: 0 };
+  });
+  return {
+    failed: mock(() => Promise.resolve(failed)),
+    markApplied: mock(() => Promise.resolve()),
+    markRolledBack: mock(() => Promise.resolve()),
+    retryFailed: mock(() => Promise.resolve()),
+  } as unknown as Migrations;
+}
+
+describe("resolve command", () => {
+  describe("runResolveAction", () => {
+    test("should mark a migration as rolled back", async () => {
+      const migrations = createMockMigrations([]);
+
+      const exitCode = await runResolveAction(migrations, "rolled-back", "001");
+
+      expect(exitCode).toBe(0);
+      expect(migrations.markRolledBack).toHaveBeenCalledWith("001");
+    });
+
+    test("should do nothing when cancelled", async () => {
+      const migrations = createMockMigrations([]);
+
+      await runResolveAction(migrations, "cancel", "001");
+
+      expect(migrations.markApplied).not.toHaveBeenCalled();
+      expect(migrations.markRolledBack).not.toHaveBeenCalled();
+      expect(migrations.retryFailed).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("interactiveResolve", () => {
+    test("should skip prompts when nothing failed", async () => {
+      const migrations = createMockMigrations([]);
+      const deps = createMockDeps();
+
+      const exitCode = await interactiveResolve(migrations, deps);
+
+      expect(exitCode).toBe(0);
+      expect(deps.getAction).not.toHaveBeenCalled();
+    });
+
+    test("should apply the chosen action to the only failed migration", async () => {
+      const migrations = createMockMigrations(["001"]);
+      const deps = createMockDeps({
+        getAction: mock(() => Promise.resolve("applied")),
+      });
+
+      await interactiveResolve(migrations, deps);
+
+      expect(deps.getMigrationId).not.toHaveBeenCalled();
+      expect(migrations.markApplied).toHaveBeenCalledWith("001");
+    });
+
+    test("should ask which migration to resolve when several failed", async () => {
+      const migrations = createMockMigrations(["001", "002"]);
+      const deps = createMockDeps();
+
+      await interactiveResolve(migrations, deps);
+
+      expect(deps.getMigrationId).toHaveBeenCalled();
+      expect(migrations.retryFailed).toHaveBeenCalledWith("002");
+    });
+  });
+});
@@ -198,6 +198,76 @@ describe("parseArgs", () => {
       expect(result.options.skipGenerate).toBe(true);
     });
 
+    test("should parse --auto-down without consuming the migration name", () => {
+      const result = parseArgs([
+        "node",
+        "cli.js",
+        "create",
+        "--auto-down",
+        "add_users",
+      ]);
+      expect(result.options.autoDown).toBe(true);
+      expect(result.args).toEqual(["add_users"]);
+    });
+
+    test("should parse --atomic as a flag", () => {
+      const result = parseArgs(["node", "cli.js", "up", "--atomic", "-v"]);
+      expect(result.options.atomic).toBe(true);
+      expect(result.options.verbose).toBe(true);
+    });
+
+    test("should parse --on-failure with its mode", () => {
+      const result = parseArgs([
+        "node",
+        "cli.js",
+        "up",
+        "--on-failure",
+        "rollback-batch",
+      ]);
+      expect(result.options.onFailure).toBe("rollback-batch");
+      expect(result.args).toEqual([]);
+    });
+
+    test("should parse --phase with its value", () => {
+      const result = parseArgs(["node", "cli.js", "up", "--phase", "post"]);
+      expect(result.options.phase).toBe("post");
+      expect(result.args).toEqual([]);
+    });
+
+    test("should collect repeated --tag and --exclude-tag values", () => {
+      const result = parseArgs([
+        "node",
+        "cli.js",
+        "status",
+        "--tag",
+        "analytics",
+        "--tag",
+        "seed",
+        "--exclude-tag",
+        "staging",
+      ]);
+      expect(result.options.tag).toEqual(["analytics", "seed"]);
+      expect(result.options.excludeTag).toEqual(["staging"]);
+      expect(result.args).toEqual([]);
+    });
+
+    test("should parse --recheck-skipped as a flag", () => {
+      const result = parseArgs(["node", "cli.js", "up", "--recheck-skipped"]);
+      expect(result.options.recheckSkipped).toBe(true);
+    });
+
+    test("should parse --all without consuming the next argument", () => {
+      const result = parseArgs([
+        "node",
+        "cli.js",
+        "verify-rollback",
+        "--all",
+        "--verbose",
+      ]);
+      expect(result.options.all).toBe(true);
+      expect(result.options.verbose).toBe(true);
+    });
+
     test("should parse --applied with value", () => {
       const result = parseArgs([
         "node",
@@ -38,6 +38,93 @@ describe("validateConfig", () => {
     );
   });
 
+  test("accepts a database provider and environment", () => {
+    const config = validateConfig({
+      provider: "postgresql",
+      environment: "staging",
+    });
+
+    expect(config.provider).toBe("postgresql");
+    expect(config.environment).toBe("staging");
+  });
+
+  test("accepts a scratch client factory", () => {
+    const scratchClientFactory = () => Promise.resolve({});
+    const config = validateConfig({ scratchClientFactory });
+
+    expect(config.scratchClientFactory).toBe(scratchClientFactory);
+  });
+
+  test("rejects a scratch client factory that is not a function", () => {
+    expect(() => validateConfig({ scratchClientFactory: "sqlite" })).toThrow(
+      'Configuration option "scratchClientFactory" must be a function',
+    );
+  });
+
+  test("accepts atomic mode", () => {
+    expect(validateConfig({ atomic: true }).atomic).toBe(true);
+  });
+
+  test("rejects unknown failure modes", () => {
+    expect(() => validateConfig({ onFailure: "retry" })).toThrow(
+      'Configuration option "onFailure" must be "stop" or "rollback-batch"',
+    );
+  });
+
+  test("accepts a migration layout", () => {
+    const config = validateConfig({ layout: "golang-migrate" });
+
+    expect(config.layout).toBe("golang-migrate");
+  });
+
+  test("rejects unknown migration layouts", () => {
+    expect(() => validateConfig({ layout: "rails" })).toThrow(
+      'Configuration option "layout" must be "prisma", "golang-migrate" or "flyway"',
+    );
+  });
+
+  test("accepts out-of-order mode", () => {
+    const config = validateConfig({ allowOutOfOrder: true });
+
+    expect(config.allowOutOfOrder).toBe(true);
+  });
+
+  test("accepts lint rule severities", () => {
+    const config = validateConfig({ lint: { "drop-table": "error" } });
+
+    expect(config.lint).toEqual({ "drop-table": "error" });
+  });
+
+  test("rejects invalid lint rules", () => {
+    expect(() => validateConfig({ lint: { "drop-view": "error" } })).toThrow(
+      'Unknown lint rule "drop-view"',
+    );
+    expect(() => validateConfig({ lint: { truncate: "fatal" } })).toThrow(
+      'Lint rule "truncate" must be "error", "warn" or "off"',
+    );
+  });
+
+  test("accepts tag filters", () => {
+    const config = validateConfig({ tags: { exclude: ["analytics"] } });
+
+    expect(config.tags).toEqual({ include: undefined, exclude: ["analytics"] });
+  });
+
+  test("rejects invalid tag filters", () => {
+    expect(() => validateConfig({ tags: { only: ["seed"] } })).toThrow(
+      'Unknown tag filter "only"',
+    );
+    expect(() => validateConfig({ tags: { include: "seed" } })).toThrow(
+      'Tag filter "include" must be an array of non-empty strings',
+    );
+  });
+
+  test("rejects unknown providers", () => {
+    expect(() => validateConfig({ provider: "oracle" })).toThrow(
+      'Configuration option "provider" is invalid',
+    );
+  });
+
   test("rejects unknown hooks", () => {
     const config = { hooks: { afterDeploy: () => undefined } };
     expect(() => validateConfig(config)).toThrow('Unknown hook "afterDeploy"');
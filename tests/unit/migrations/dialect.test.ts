@@ -0,0 +1,95 @@
+import { describe, expect, test } from "bun:test";
+import {
+  buildSessionSettings,
+  detectProvider,
+} from "../../../src/migrations/dialect";
+import type { MigrationMetadata } from "../../../src/migrations/sql";
+import type { PrismaClient } from "../../../src/types";
+
+const metadata: MigrationMetadata = {
+  transaction: true,
+  statementTimeout: 30000,
+  lockTimeout: 1500,
+};
+
+describe("buildSessionSettings", () => {
+  test("returns no statements without setting directives", () => {
+    const settings = buildSessionSettings(undefined, { transaction: true });
+
+    expect(settings).toEqual({ apply: [], reset: [] });
+  });
+
+  test("uses transaction-scoped settings on PostgreSQL", () => {
+    const settings = buildSessionSettings("postgresql", {
+      ...metadata,
+      searchPath: "app,public",
+    });
+
+    expect(settings).toEqual({
+      apply: [
+        "SET LOCAL statement_timeout = 30000",
+        "SET LOCAL lock_timeout = 1500",
+        "SET LOCAL search_path TO app,public",
+      ],
+      reset: [
+        "SET LOCAL statement_timeout TO DEFAULT",
+        "SET LOCAL lock_timeout TO DEFAULT",
+        "SET LOCAL search_path TO DEFAULT",
+      ],
+    });
+  });
+
+  test("restores session settings on MySQL", () => {
+    const settings = buildSessionSettings("mysql", metadata);
+
+    expect(settings.apply).toEqual([
+      "SET SESSION max_execution_time = 30000",
+      "SET SESSION lock_wait_timeout = 2",
+    ]);
+    expect(settings.reset).toEqual([
+      "SET SESSION max_execution_time = DEFAULT",
+      "SET SESSION lock_wait_timeout = DEFAULT",
+    ]);
+  });
+
+  test("maps lock timeouts to busy_timeout on SQLite", () => {
+    const settings = buildSessionSettings("sqlite", {
+      transaction: true,
+      lockTimeout: 1500,
+    });
+
+    expect(settings.apply).toEqual(["PRAGMA busy_timeout = 1500"]);
+  });
+
+  test("rejects settings a provider cannot apply", () => {
+    expect(() => buildSessionSettings("sqlite", metadata)).toThrow(
+      "The statement_timeout directive is not supported on sqlite",
+    );
+  });
+
+  test("requires a provider when settings are present", () => {
+    expect(() => buildSessionSettings(undefined, metadata)).toThrow(
+      'Set the "provider" option',
+    );
+  });
+
+  test("rejects unsafe search paths", () => {
+    const unsafe = { transaction: true, searchPath: "public;DROP" };
+
+    expect(() => buildSessionSettings("postgresql", unsafe)).toThrow(
+      'Invalid search_path directive "public;DROP"',
+    );
+  });
+});
+
+describe("detectProvider", () => {
+  test("reads the active provider from a Prisma client", () => {
+    const client = { _activeProvider: "mysql" } as unknown as PrismaClient;
+
+    expect(detectProvider(client)).toBe("mysql");
+  });
+
+  test("returns undefined for unknown clients", () => {
+    expect(detectProvider({} as PrismaClient)).toBeUndefined();
+  });
+});
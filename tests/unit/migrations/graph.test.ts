@@ -0,0 +1,88 @@
+import { describe, expect, test } from "bun:test";
+import type { DiscoveredMigration } from "../../../src/migrations/discovery";
+import {
+  assertNoAppliedDependents,
+  orderMigrations,
+} from "../../../src/migrations/graph";
+
+function createMigration(
+  id: string,
+  dependsOn?: string[],
+  squashes?: string[],
+): DiscoveredMigration {
+  return {
+    id,
+    name: `migration_${id}`,
+    path: `/migrations/${id}/migration.sql`,
+    format: "prisma",
+    kind: "versioned",
+    metadata: { transaction: true, dependsOn, squashes },
+  };
+}
+
+function ids(migrations: DiscoveredMigration[]): string[] {
+  return migrations.map((migration) => migration.id);
+}
+
+describe("orderMigrations", () => {
+  test("keeps lexical order without dependencies", () => {
+    const migrations = ["001", "002", "003"].map((id) => createMigration(id));
+
+    expect(ids(orderMigrations(migrations))).toEqual(["001", "002", "003"]);
+  });
+
+  test("places dependencies before their dependents", () => {
+    const migrations = [
+      createMigration("001"),
+      createMigration("002", ["003"]),
+      createMigration("003"),
+    ];
+
+    expect(ids(orderMigrations(migrations))).toEqual(["001", "003", "002"]);
+  });
+
+  test("resolves dependencies on squashed migrations", () => {
+    const migrations = [
+      createMigration("002", undefined, ["001_users", "002_posts"]),
+      createMigration("003", ["001"]),
+    ];
+
+    expect(ids(orderMigrations(migrations))).toEqual(["002", "003"]);
+  });
+
+  test("rejects unknown dependencies", () => {
+    const migrations = [createMigration("001", ["999"])];
+
+    expect(() => orderMigrations(migrations)).toThrow(
+      "Migration 001 depends on unknown migration 999",
+    );
+  });
+
+  test("rejects circular dependencies", () => {
+    const migrations = [
+      createMigration("001"),
+      createMigration("002", ["003"]),
+      createMigration("003", ["002"]),
+    ];
+
+    expect(() => orderMigrations(migrations)).toThrow(
+      "Circular migration dependency: 002 -> 003 -> 002",
+    );
+  });
+});
+
+describe("assertNoAppliedDependents", () => {
+  const migrations = [createMigration("001"), createMigration("002", ["001"])];
+
+  test("allows rolling back migrations without applied dependents", () => {
+    expect(() => {
+      assertNoAppliedDependents(migrations, ["001", "002"], ["002", "001"]);
+    }).not.toThrow();
+  });
+
+  test("rejects rolling back a migration an applied migration needs", () => {
+    expect(() => {
+      assertNoAppliedDependents(migrations, ["002", "001"], ["001"]);
+    }).toThrow("Cannot roll back 001: applied migration 002 depends on it");
+  });
+});
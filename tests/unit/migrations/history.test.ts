@@ -41,6 +41,10 @@ describe("migration history rows", () => {
     const parsed = parseMigrationDirectoryName("001_create_users");
 
     expect(parsed).toEqual({ id: "001", name: "create_users" });
+    expect(parseMigrationDirectoryName("1.2.3_add_column")).toEqual({
+      id: "1.2.3",
+      name: "add_column",
+    });
     expect(parseMigrationDirectoryName("invalid")).toBeNull();
     expect(parseMigrationDirectoryName(undefined)).toBeNull();
   });
@@ -86,6 +90,18 @@ describe("MigrationHistory", () => {
     expect(executeRaw).toHaveBeenCalledTimes(1);
   });
 
+  test("records failed attempts without a finish time", async () => {
+    const executeRaw = mock(() => Promise.resolve(0));
+    const history = new MigrationHistory(createClient(executeRaw));
+    const migration = { id: "001", name: "users", path: "/migration.sql" };
+
+    await history.recordFailed(migration, "abc", "boom", 2);
+
+    const [query, ...values] = executeRaw.mock.calls[0] as unknown[];
+    expect(String(query)).toContain("NULL, ");
+    expect(values).toEqual([expect.any(String), "abc", "001_users", "boom", 2]);
+  });
+
   test("reports all unresolved failed migrations", () => {
     const history = new MigrationHistory(createClient());
     const failedRows = [
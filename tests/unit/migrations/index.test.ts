@@ -1,9 +1,13 @@
 import { describe, test, expect, mock, beforeEach, afterEach } from "bun:test";
-import { Migrations } from "../../../src/migrations";
+import { Migrations, type DatabaseProvider } from "../../../src/migrations";
 import type { PrismaClient } from "../../../src/types";
-import { mkdirSync, rmSync, existsSync, writeFileSync } from "fs";
+import { mkdirSync, rmSync, existsSync, readFileSync, writeFileSync } from "fs";
 import { join } from "path";
-import { generateChecksum } from "../../../src/utils";
+import {
+  generateChecksum,
+  generateStatementsChecksum,
+} from "../../../src/utils";
+import { MigrationBatchError } from "../../../src/errors";
 
 const testMigrationsDir = join(process.cwd(), "test-migrations");
 
@@ -21,6 +25,7 @@ describe("Migrations", () => {
       $executeRaw: mock(() => Promise.resolve(1)),
       $executeRawUnsafe: mock(() => Promise.resolve(1)),
       $queryRaw: mock(() => Promise.resolve([])),
+      $queryRawUnsafe: mock(() => Promise.resolve([])),
       $transaction: mock((fn) => fn(mockPrisma)),
       $disconnect: mock(() => Promise.resolve()),
       $raw: mock((value: string) => value),
@@ -71,6 +76,17 @@ ${downSql}
     }
   };
 
+  const createModuleMigration = (
+    id: string,
+    name: string,
+    source: string,
+    fileName = "migration.js",
+  ) => {
+    const migrationDir = join(testMigrationsDir, `${id}_${name}`);
+    mkdirSync(migrationDir, { recursive: true });
+    writeFileSync(join(migrationDir, fileName), source);
+  };
+
   describe("constructor", () => {
     test("should use default migrations directory", () => {
       const m = new Migrations(mockPrisma);
@@ -251,6 +267,533 @@ SELECT 'done; ok';`,
     });
   });
 
+  describe("module migrations", () => {
+    const moduleSource = `
+export async function up(prisma) {
+  await prisma.$executeRawUnsafe("CREATE TABLE module_test (id INT)");
+}
+
+export async function down(prisma) {
+  await prisma.$executeRawUnsafe("DROP TABLE module_test");
+}
+`;
+
+    test("should discover migration.ts and migration.js files", async () => {
+      createModuleMigration("001", "js_module", moduleSource);
+      createModuleMigration("002", "ts_module", moduleSource, "migration.ts");
+
+      const pending = await migrations.pending();
+
+      expect(pending.map((migration) => migration.format)).toEqual([
+        "module",
+        "module",
+      ]);
+      expect(pending[1].path.endsWith("migration.ts")).toBe(true);
+    });
+
+    test("should run the up export inside a transaction", async () => {
+      createModuleMigration("001", "module_up", moduleSource);
+
+      const count = await migrations.up();
+
+      expect(count).toBe(1);
+      expect(mockPrisma.$transaction).toHaveBeenCalledTimes(1);
+      expect(mockPrisma.$executeRawUnsafe).toHaveBeenCalledWith(
+        "CREATE TABLE module_test (id INT)",
+      );
+    });
+
+    test("should record the module checksum", async () => {
+      createModuleMigration("001", "module_checksum", moduleSource);
+      const path = join(
+        testMigrationsDir,
+        "001_module_checksum",
+        "migration.js",
+      );
+      const checksum = await generateChecksum(path);
+
+      await migrations.up();
+
+      const values = mockPrisma.$executeRaw.mock.calls.flatMap(
+        ([, ...params]) => params,
+      );
+      expect(values).toContain(checksum);
+    });
+
+    test("should run the down export on rollback", async () => {
+      createModuleMigration("001", "module_down", moduleSource);
+      mockPrisma.$queryRaw = mock(() => Promise.resolve([{ id: "001" }]));
+
+      await migrations.down();
+
+      expect(mockPrisma.$executeRawUnsafe).toHaveBeenCalledWith(
+        "DROP TABLE module_test",
+      );
+    });
+
+    test("should accept a default export", async () => {
+      createModuleMigration(
+        "001",
+        "module_default",
+        `export default {
+  up: (prisma) => prisma.$executeRawUnsafe("SELECT 'default'"),
+  down: (prisma) => prisma.$executeRawUnsafe("SELECT 1"),
+};
+`,
+      );
+
+      await migrations.up();
+
+      expect(mockPrisma.$executeRawUnsafe).toHaveBeenCalledWith(
+        "SELECT 'default'",
+      );
+    });
+
+    test("should reject a module without a down export", async () => {
+      createModuleMigration(
+        "001",
+        "module_missing_down",
+        "export async function up() {}\n",
+      );
+      mockPrisma.$queryRaw = mock(() => Promise.resolve([{ id: "001" }]));
+
+      await expect(migrations.down()).rejects.toThrow(
+        'does not export a function named "down"',
+      );
+    });
+
+    test("should explain when the runtime cannot import migration.ts", async () => {
+      createModuleMigration("001", "ts_module", moduleSource, "migration.ts");
+      const bunVersion = Object.getOwnPropertyDescriptor(
+        process.versions,
+        "bun",
+      )!;
+      const typescript = Object.getOwnPropertyDescriptor(
+        process.features,
+        "typescript",
+      )!;
+      Object.defineProperty(process.versions, "bun", { value: undefined });
+      Object.defineProperty(process.features, "typescript", { value: false });
+
+      try {
+        await expect(migrations.up()).rejects.toThrow(
+          "Cannot load 001_ts_module: this Node.js version cannot import migration.ts files",
+        );
+      } finally {
+        Object.defineProperty(process.versions, "bun", bunVersion);
+        Object.defineProperty(process.features, "typescript", typescript);
+      }
+    });
+  });
+
+  describe("transaction directive", () => {
+    test("should run statements outside a transaction", async () => {
+      createPrismaMigration(
+        "001",
+        "concurrent_index",
+        `-- prisma-migrations: transaction=false
+CREATE INDEX CONCURRENTLY users_email_idx ON users (email);`,
+      );
+
+      const count = await migrations.up();
+
+      expect(count).toBe(1);
+      expect(mockPrisma.$transaction).not.toHaveBeenCalled();
+      expect(mockPrisma.$executeRawUnsafe).toHaveBeenCalledWith(
+        expect.stringContaining("CREATE INDEX CONCURRENTLY users_email_idx"),
+      );
+      const queries = mockPrisma.$executeRaw.mock.calls.map(([query]) =>
+        String(query),
+      );
+      expect(
+        queries.some((query) =>
+          query.includes("INSERT INTO _prisma_migrations"),
+        ),
+      ).toBe(true);
+    });
+
+    test("should read the rollback directive from down.sql", async () => {
+      createPrismaMigration(
+        "001",
+        "enum_value",
+        "SELECT 1;",
+        `-- prisma-migrations: transaction=false
+VACUUM;`,
+      );
+      mockPrisma.$queryRaw = mock(() => Promise.resolve([{ id: "001" }]));
+
+      await migrations.down();
+
+      expect(mockPrisma.$transaction).not.toHaveBeenCalled();
+    });
+
+    test("should ignore directives after the first statement", async () => {
+      createPrismaMigration(
+        "001",
+        "late_directive",
+        `SELECT 1;
+-- prisma-migrations: transaction=false
+SELECT 2;`,
+      );
+
+      await migrations.up();
+
+      expect(mockPrisma.$transaction).toHaveBeenCalledTimes(1);
+    });
+
+    test("should report the failing statement", async () => {
+      createPrismaMigration(
+        "001",
+        "partial",
+        `-- prisma-migrations: transaction=false
+SELECT 1;
+SELECT 2;
+SELECT 3;`,
+      );
+      mockPrisma.$executeRawUnsafe = mock((query: string) => {
+        if (query.includes("2")) return Promise.reject(new Error("boom"));
+        return Promise.resolve(1);
+      });
+
+      const result = migrations.up();
+
+      await expect(result).rejects.toThrow(
+        "Migration 001_partial failed at statement 2 of 3: boom",
+      );
+    });
+
+    test("should reject an invalid transaction directive", async () => {
+      createPrismaMigration(
+        "001",
+        "invalid_directive",
+        `-- prisma-migrations: transaction=maybe
+SELECT 1;`,
+      );
+
+      await expect(migrations.up()).rejects.toThrow(
+        'Invalid transaction directive "maybe"',
+      );
+    });
+  });
+
+  describe("setting directives", () => {
+    test("should apply session settings inside the transaction", async () => {
+      const postgresMigrations = new Migrations(mockPrisma, {
+        migrationsDir: testMigrationsDir,
+        disableLocking: true,
+        provider: "postgresql",
+      });
+      createPrismaMigration(
+        "001",
+        "timeouts",
+        `-- prisma-migrations: statement_timeout=5s lock_timeout=1s
+ALTER TABLE users ADD COLUMN age INT;`,
+      );
+
+      await postgresMigrations.up();
+
+      const statements = mockPrisma.$executeRawUnsafe.mock.calls.map(
+        ([statement]) => statement,
+      );
+      expect(statements).toEqual([
+        "SET LOCAL statement_timeout = 5000",
+        "SET LOCAL lock_timeout = 1000",
+        expect.stringContaining("ALTER TABLE users ADD COLUMN age INT"),
+        "SET LOCAL statement_timeout TO DEFAULT",
+        "SET LOCAL lock_timeout TO DEFAULT",
+      ]);
+    });
+
+    test("should reset search_path before recording history", async () => {
+      const calls: string[] = [];
+      mockPrisma.$executeRawUnsafe = mock((statement: string) => {
+        calls.push(statement);
+        return Promise.resolve(1);
+      });
+      mockPrisma.$executeRaw = mock((query: TemplateStringsArray) => {
+        calls.push(query.join("?").trim());
+        return Promise.resolve(1);
+      });
+      const postgresMigrations = new Migrations(mockPrisma, {
+        migrationsDir: testMigrationsDir,
+        disableLocking: true,
+        provider: "postgresql",
+      });
+      createPrismaMigration(
+        "001",
+        "audit",
+        `-- prisma-migrations: search_path=audit
+CREATE TABLE events (id INT);`,
+      );
+
+      await postgresMigrations.up();
+
+      const resetIndex = calls.indexOf("SET LOCAL search_path TO DEFAULT");
+      const insertIndex = calls.findIndex((call) => {
+        return call.startsWith("INSERT INTO _prisma_migrations");
+      });
+      expect(resetIndex).toBeGreaterThan(0);
+      expect(insertIndex).toBeGreaterThan(resetIndex);
+    });
+
+    test("should reject settings on non-transactional migrations", async () => {
+      createPrismaMigration(
+        "001",
+        "timeouts",
+        `-- prisma-migrations: transaction=false lock_timeout=1s
+SELECT 1;`,
+      );
+
+      await expect(migrations.up()).rejects.toThrow(
+        "Session setting directives require a transaction",
+      );
+    });
+
+    test("should report invalid directives during discovery", async () => {
+      createPrismaMigration(
+        "001",
+        "typo",
+        `-- prisma-migrations: lock_timout=1s
+SELECT 1;`,
+      );
+
+      await expect(migrations.pending()).rejects.toThrow(
+        'Invalid directives in 001_typo: Unknown directive "lock_timout"',
+      );
+    });
+  });
+
+  describe("deploy phases", () => {
+    const createPhasedMigrations = () => {
+      createPrismaMigration("001", "add_email", "SELECT 1;");
+      createPrismaMigration(
+        "002",
+        "drop_name",
+        "-- prisma-migrations: phase=post\nSELECT 2;",
+      );
+      createPrismaMigration("003", "add_phone", "SELECT 3;");
+    };
+
+    const createPhaseMigrations = (phase: "pre" | "post") => {
+      return new Migrations(mockPrisma, {
+        migrationsDir: testMigrationsDir,
+        disableLocking: true,
+        phase,
+      });
+    };
+
+    test("should order pending pre-deploy migrations before post-deploy ones", async () => {
+      createPhasedMigrations();
+
+      const pending = await migrations.pending();
+
+      expect(pending.map((migration) => migration.id)).toEqual([
+        "001",
+        "003",
+        "002",
+      ]);
+    });
+
+    test("should only run migrations in the selected phase", async () => {
+      createPhasedMigrations();
+
+      const pre = await createPhaseMigrations("pre").pending();
+      const post = await createPhaseMigrations("post").pending();
+
+      expect(pre.map((migration) => migration.id)).toEqual(["001", "003"]);
+      expect(post.map((migration) => migration.id)).toEqual(["002"]);
+    });
+
+    test("should check linear history within each phase", async () => {
+      createPhasedMigrations();
+      mockPrisma.$queryRaw = mock(() =>
+        Promise.resolve([{ id: "001" }, { id: "003" }]),
+      );
+
+      const pending = await migrations.pending();
+
+      expect(pending.map((migration) => migration.id)).toEqual(["002"]);
+    });
+
+    test("should still refuse out-of-order migrations in the same phase", async () => {
+      createPhasedMigrations();
+      mockPrisma.$queryRaw = mock(() => Promise.resolve([{ id: "003" }]));
+
+      await expect(migrations.pending()).rejects.toThrow(
+        "Migration history is out of order: 003 is applied before 001",
+      );
+    });
+
+    test("should mark post-deploy migrations in status", async () => {
+      createPhasedMigrations();
+      mockPrisma.$queryRaw = mock(() =>
+        Promise.resolve([{ id: "001" }, { id: "003" }]),
+      );
+
+      const statuses = await migrations.status();
+
+      expect(statuses[1]).toEqual({
+        migration: expect.objectContaining({ id: "002" }),
+        applied: false,
+        phase: "post",
+      });
+      expect(statuses[2].phase).toBeUndefined();
+    });
+  });
+
+  describe("tag selection", () => {
+    const createTaggedMigrations = () => {
+      createPrismaMigration("001", "schema", "SELECT 1;");
+      createPrismaMigration(
+        "002",
+        "events_index",
+        "-- prisma-migrations: tags=analytics\nSELECT 2;",
+      );
+      createPrismaMigration(
+        "003",
+        "staging_seed",
+        "-- prisma-migrations: tags=seed,staging\nSELECT 3;",
+      );
+    };
+
+    const pendingIds = async (tags: {
+      include?: string[];
+      exclude?: string[];
+    }) => {
+      const tagged = new Migrations(mockPrisma, {
+        migrationsDir: testMigrationsDir,
+        disableLocking: true,
+        tags,
+      });
+      const pending = await tagged.pending();
+      return pending.map((migration) => migration.id);
+    };
+
+    test("should only select migrations with an included tag", async () => {
+      createTaggedMigrations();
+
+      expect(await pendingIds({ include: ["analytics"] })).toEqual(["002"]);
+    });
+
+    test("should skip migrations with an excluded tag", async () => {
+      createTaggedMigrations();
+
+      expect(await pendingIds({ exclude: ["seed"] })).toEqual(["001", "002"]);
+    });
+
+    test("should let exclusions win over inclusions", async () => {
+      createTaggedMigrations();
+
+      const ids = await pendingIds({
+        include: ["analytics", "staging"],
+        exclude: ["seed"],
+      });
+
+      expect(ids).toEqual(["002"]);
+    });
+
+    test("should treat excluded migrations as skipped rather than out of order", async () => {
+      createTaggedMigrations();
+      mockPrisma.$queryRaw = mock(() =>
+        Promise.resolve([{ id: "001" }, { id: "003" }]),
+      );
+
+      expect(await pendingIds({ exclude: ["analytics"] })).toEqual([]);
+    });
+
+    test("should not treat migrations excluded by the filter as out of order", async () => {
+      createTaggedMigrations();
+      createPrismaMigration("004", "posts", "SELECT 4;", "SELECT 5;");
+      mockPrisma.$queryRaw = mock(() =>
+        Promise.resolve([{ id: "001" }, { id: "003" }, { id: "004" }]),
+      );
+      migrations = new Migrations(mockPrisma, {
+        migrationsDir: testMigrationsDir,
+        disableLocking: true,
+        tags: { exclude: ["analytics"] },
+      });
+
+      const statuses = await migrations.status();
+
+      expect(statuses.map((status) => status.applied)).toEqual([
+        true,
+        false,
+        true,
+        true,
+      ]);
+      await expect(migrations.down()).resolves.toBe(1);
+    });
+
+    test("should reject pending tagged migrations the filter includes", async () => {
+      createTaggedMigrations();
+      createPrismaMigration("004", "posts", "SELECT 4;");
+      mockPrisma.$queryRaw = mock(() =>
+        Promise.resolve([{ id: "001" }, { id: "003" }, { id: "004" }]),
+      );
+
+      await expect(migrations.status()).rejects.toThrow(
+        "Migration history is out of order: 003 is applied before 002",
+      );
+    });
+  });
+
+  describe("environment directives", () => {
+    const createEnvironmentMigrations = () => {
+      createPrismaMigration("001", "schema", "SELECT 1;");
+      createPrismaMigration(
+        "002",
+        "staging_seed",
+        `-- prisma-migrations: environments=staging
+INSERT INTO users (email) VALUES ('qa@example.com');`,
+      );
+      createPrismaMigration("003", "later", "SELECT 3;");
+    };
+
+    test("should skip migrations for other environments", async () => {
+      createEnvironmentMigrations();
+      const productionMigrations = new Migrations(mockPrisma, {
+        migrationsDir: testMigrationsDir,
+        disableLocking: true,
+        environment: "production",
+      });
+
+      const pending = await productionMigrations.pending();
+
+      expect(pending.map((migration) => migration.id)).toEqual(["001", "003"]);
+    });
+
+    test("should run migrations for the current environment", async () => {
+      createEnvironmentMigrations();
+      const stagingMigrations = new Migrations(mockPrisma, {
+        migrationsDir: testMigrationsDir,
+        disableLocking: true,
+        environment: "staging",
+      });
+
+      await expect(stagingMigrations.up()).resolves.toBe(3);
+    });
+
+    test("should not treat excluded migrations as out of order", async () => {
+      createEnvironmentMigrations();
+      mockPrisma.$queryRaw = mock(() =>
+        Promise.resolve([{ id: "001" }, { id: "003" }]),
+      );
+      const productionMigrations = new Migrations(mockPrisma, {
+        migrationsDir: testMigrationsDir,
+        disableLocking: true,
+        environment: "production",
+      });
+
+      const statuses = await productionMigrations.status();
+
+      expect(statuses[1]).toEqual({
+        migration: expect.objectContaining({ id: "002" }),
+        applied: false,
+        excluded: true,
+      });
+    });
+  });
+
   describe("down", () => {
     test("should execute a separate down.sql file", async () => {
       createPrismaMigration("001", "first", "SELECT 1;", "SELECT 2;");
@@ -267,7 +810,7 @@ SELECT 'done; ok';`,
       mockPrisma.$queryRaw = mock(() => Promise.resolve([{ id: "001" }]));
 
       await expect(migrations.down()).rejects.toThrow(
-        "does not have executable rollback SQL",
+        "Cannot roll back 001_first: no rollback SQL",
       );
     });
 
@@ -276,7 +819,7 @@ SELECT 'done; ok';`,
       mockPrisma.$queryRaw = mock(() => Promise.resolve([{ id: "001" }]));
 
       await expect(migrations.down()).rejects.toThrow(
-        "does not have executable rollback SQL",
+        "Cannot roll back 001_first: no rollback SQL",
       );
     });
 
@@ -473,7 +1016,7 @@ SELECT 'done; ok';`,
       mkdirSync(emptyMigrationDir, { recursive: true });
 
       await expect(migrations.pending()).rejects.toThrow(
-        "No migration.sql file found in 001_empty",
+        "No migration.sql, migration.ts or migration.js file found in 001_empty",
       );
     });
   });
@@ -680,15 +1223,52 @@ SELECT 'done; ok';`,
         "Migration history is out of order: 002 is applied before 001",
       );
     });
-  });
 
-  describe("dryRun", () => {
-    test("should list pending migrations without running them", async () => {
-      createMigration("001", "first");
+    test("should apply older pending migrations when out of order is allowed", async () => {
+      createMigration("001", "first", "CREATE TABLE first (id INT);");
       createMigration("002", "second");
-
-      const result = await migrations.dryRun();
-      expect(result.length).toBe(2);
+      const rows = [{ id: "uuid", migration_name: "002_second" }];
+      mockPrisma.$queryRaw = mock(() => Promise.resolve(rows));
+      migrations = new Migrations(mockPrisma, {
+        migrationsDir: testMigrationsDir,
+        disableLocking: true,
+        allowOutOfOrder: true,
+      });
+
+      await expect(migrations.up()).resolves.toBe(1);
+      expect(mockPrisma.$executeRawUnsafe).toHaveBeenCalledWith(
+        "CREATE TABLE first (id INT)",
+      );
+    });
+
+    test("should roll back in applied order when out of order is allowed", async () => {
+      createMigration("001", "first", "SELECT 1;", "DROP TABLE first;");
+      createMigration("002", "second", "SELECT 1;", "DROP TABLE second;");
+      const rows = [
+        { id: "uuid-2", migration_name: "002_second" },
+        { id: "uuid-1", migration_name: "001_first" },
+      ];
+      mockPrisma.$queryRaw = mock(() => Promise.resolve(rows));
+      migrations = new Migrations(mockPrisma, {
+        migrationsDir: testMigrationsDir,
+        disableLocking: true,
+        allowOutOfOrder: true,
+      });
+
+      await expect(migrations.down()).resolves.toBe(1);
+      expect(mockPrisma.$executeRawUnsafe).toHaveBeenCalledWith(
+        "DROP TABLE first",
+      );
+    });
+  });
+
+  describe("dryRun", () => {
+    test("should list pending migrations without running them", async () => {
+      createMigration("001", "first");
+      createMigration("002", "second");
+
+      const result = await migrations.dryRun();
+      expect(result.length).toBe(2);
 
       const applied = await migrations.applied();
       expect(applied.length).toBe(0);
@@ -703,4 +1283,1749 @@ SELECT 'done; ok';`,
       expect(result.length).toBe(2);
     });
   });
+
+  describe("repeatable migrations", () => {
+    const createRepeatable = (name: string, sql: string) => {
+      const repeatableDir = join(testMigrationsDir, "repeatable");
+      mkdirSync(repeatableDir, { recursive: true });
+      const path = join(repeatableDir, `${name}.sql`);
+      writeFileSync(path, sql);
+      return path;
+    };
+
+    test("should apply repeatables after versioned migrations", async () => {
+      createMigration("001", "first", "CREATE TABLE users (id INT);");
+      createRepeatable("active_users", "CREATE VIEW active_users AS SELECT 1;");
+
+      const count = await migrations.up();
+
+      expect(count).toBe(2);
+      const calls = (mockPrisma.$executeRawUnsafe as any).mock.calls;
+      const statements = calls.map((call: string[]) => call[0]);
+      expect(statements).toEqual([
+        "CREATE TABLE users (id INT)",
+        "CREATE VIEW active_users AS SELECT 1",
+      ]);
+    });
+
+    test("should skip repeatables whose checksum is unchanged", async () => {
+      const path = createRepeatable(
+        "report",
+        "CREATE VIEW report AS SELECT 1;",
+      );
+      const checksum = await generateChecksum(path);
+      const rows = [{ id: "uuid", migration_name: "R__report", checksum }];
+      mockPrisma.$queryRaw = mock(() => Promise.resolve(rows));
+
+      await expect(migrations.up()).resolves.toBe(0);
+    });
+
+    test("should re-apply repeatables whose checksum changed", async () => {
+      createRepeatable("report", "CREATE VIEW report AS SELECT 2;");
+      const rows = [
+        { id: "uuid", migration_name: "R__report", checksum: "previous" },
+      ];
+      mockPrisma.$queryRaw = mock(() => Promise.resolve(rows));
+
+      await expect(migrations.up()).resolves.toBe(1);
+      expect(mockPrisma.$executeRawUnsafe).toHaveBeenCalledWith(
+        "CREATE VIEW report AS SELECT 2",
+      );
+    });
+
+    test("should retire the previous run when re-applying a repeatable", async () => {
+      createRepeatable("report", "CREATE VIEW report AS SELECT 2;");
+      const rows = [
+        { id: "uuid", migration_name: "R__report", checksum: "previous" },
+      ];
+      mockPrisma.$queryRaw = mock(() => Promise.resolve(rows));
+
+      await migrations.up();
+
+      const queries = mockPrisma.$executeRaw.mock.calls.map(([query]) =>
+        String(query),
+      );
+      const retireIndex = queries.findIndex((query) => {
+        return query.includes("SET rolled_back_at = CURRENT_TIMESTAMP");
+      });
+      const insertIndex = queries.findIndex((query) => {
+        return query.includes("INSERT INTO _prisma_migrations");
+      });
+      expect(retireIndex).toBeGreaterThanOrEqual(0);
+      expect(insertIndex).toBeGreaterThan(retireIndex);
+    });
+
+    test("should wait for a full batch before applying repeatables", async () => {
+      createMigration("001", "first");
+      createMigration("002", "second");
+      createRepeatable("report", "CREATE VIEW report AS SELECT 1;");
+
+      const result = await migrations.dryRun(1);
+
+      expect(result.map((migration) => migration.id)).toEqual(["001"]);
+    });
+
+    test("should report repeatables as up to date or changed", async () => {
+      const path = createRepeatable("current", "SELECT 1;");
+      createRepeatable("stale", "SELECT 2;");
+      const checksum = await generateChecksum(path);
+      const rows = [
+        { id: "uuid-1", migration_name: "R__current", checksum },
+        { id: "uuid-2", migration_name: "R__stale", checksum: "previous" },
+      ];
+      mockPrisma.$queryRaw = mock(() => Promise.resolve(rows));
+
+      const statuses = await migrations.status();
+
+      const summary = statuses.map((status) => ({
+        id: status.migration.id,
+        applied: status.applied,
+        changed: status.changed,
+      }));
+      expect(summary).toEqual([
+        { id: "R__current", applied: true, changed: false },
+        { id: "R__stale", applied: true, changed: true },
+      ]);
+    });
+
+    test("should forget repeatables on reset", async () => {
+      createRepeatable("report", "SELECT 1;");
+      const rows = [
+        { id: "uuid", migration_name: "R__report", checksum: "previous" },
+      ];
+      mockPrisma.$queryRaw = mock(() => Promise.resolve(rows));
+
+      await expect(migrations.reset()).resolves.toBe(0);
+      expect(mockPrisma.$executeRaw).toHaveBeenCalledTimes(2);
+    });
+  });
+
+  describe("dependency directives", () => {
+    test("should apply dependencies before their dependents", async () => {
+      createPrismaMigration(
+        "001",
+        "views",
+        "-- prisma-migrations: depends_on=002\nCREATE VIEW a AS SELECT 1;",
+      );
+      createPrismaMigration("002", "tables", "CREATE TABLE a (id INT);");
+
+      const pending = await migrations.pending();
+
+      expect(pending.map((migration) => migration.id)).toEqual(["002", "001"]);
+    });
+
+    test("should refuse to roll back a migration that is still needed", async () => {
+      createPrismaMigration("001", "tables", "CREATE TABLE a (id INT);");
+      createPrismaMigration(
+        "002",
+        "views",
+        "-- prisma-migrations: depends_on=001\nCREATE VIEW a AS SELECT 1;",
+      );
+      const rows = [
+        { id: "uuid-2", migration_name: "002_views" },
+        { id: "uuid-1", migration_name: "001_tables" },
+      ];
+      mockPrisma.$queryRaw = mock(() => Promise.resolve(rows));
+
+      await expect(migrations.down()).rejects.toThrow(
+        "Cannot roll back 001: applied migration 002 depends on it",
+      );
+    });
+  });
+
+  describe("baseline", () => {
+    test("should record migrations up to the target without running them", async () => {
+      createMigration("001", "first");
+      createMigration("002", "second");
+      createMigration("003", "third");
+
+      const count = await migrations.baseline("002");
+
+      expect(count).toBe(2);
+      expect(mockPrisma.$executeRawUnsafe).not.toHaveBeenCalled();
+      expect(mockPrisma.$transaction).toHaveBeenCalledTimes(1);
+      expect(mockPrisma.$executeRaw).toHaveBeenCalledTimes(3);
+    });
+
+    test("should skip migrations that are already applied", async () => {
+      createMigration("001", "first");
+      createMigration("002", "second");
+      const rows = [{ id: "uuid", migration_name: "001_first" }];
+      mockPrisma.$queryRaw = mock(() => Promise.resolve(rows));
+      migrations = new Migrations(mockPrisma, {
+        migrationsDir: testMigrationsDir,
+        disableLocking: true,
+        skipChecksumValidation: true,
+      });
+
+      await expect(migrations.baseline("002")).resolves.toBe(1);
+    });
+
+    test("should reject unknown target migrations", async () => {
+      createMigration("001", "first");
+
+      await expect(migrations.baseline("999")).rejects.toThrow(
+        "Migration file not found for 999",
+      );
+    });
+  });
+
+  describe("squash", () => {
+    const createSquashFixture = () => {
+      createPrismaMigration(
+        "001",
+        "users",
+        "CREATE TABLE users (id INT);",
+        "DROP TABLE users;",
+      );
+      createPrismaMigration(
+        "002",
+        "posts",
+        "CREATE TABLE posts (id INT);",
+        "DROP TABLE posts;",
+      );
+      createPrismaMigration(
+        "003",
+        "comments",
+        "CREATE TABLE comments (id INT);",
+      );
+    };
+
+    test("should combine migrations into a squashed directory", async () => {
+      createSquashFixture();
+
+      const result = await migrations.squash("002");
+
+      expect(result).toEqual({ directoryName: "002_squashed", count: 2 });
+      const squashDir = join(testMigrationsDir, "002_squashed");
+      const upSql = readFileSync(join(squashDir, "migration.sql"), "utf-8");
+      const downSql = readFileSync(join(squashDir, "down.sql"), "utf-8");
+      expect(upSql).toBe(
+        "-- prisma-migrations: squashes=001_users,002_posts\n\n" +
+          "-- 001_users\nCREATE TABLE users (id INT);\n\n" +
+          "-- 002_posts\nCREATE TABLE posts (id INT);\n",
+      );
+      expect(downSql).toBe(
+        "-- 002_posts\nDROP TABLE posts;\n\n-- 001_users\nDROP TABLE users;\n",
+      );
+      expect(existsSync(join(testMigrationsDir, "_archive", "001_users"))).toBe(
+        true,
+      );
+      const pending = await migrations.pending();
+      expect(pending.map((migration) => migration.id)).toEqual(["002", "003"]);
+    });
+
+    test("should record the squash as applied on databases that ran the originals", async () => {
+      createSquashFixture();
+      const rows = [
+        { id: "uuid-1", migration_name: "001_users" },
+        { id: "uuid-2", migration_name: "002_posts" },
+      ];
+      mockPrisma.$queryRaw = mock(() => Promise.resolve(rows));
+      migrations = new Migrations(mockPrisma, {
+        migrationsDir: testMigrationsDir,
+        disableLocking: true,
+        skipChecksumValidation: true,
+      });
+
+      await migrations.squash("002");
+
+      expect(mockPrisma.$transaction).toHaveBeenCalledTimes(1);
+      const pending = await migrations.pending();
+      expect(pending.map((migration) => migration.id)).toEqual(["003"]);
+    });
+
+    test("should mark the squash irreversible when a migration has no rollback", async () => {
+      createSquashFixture();
+
+      await migrations.squash("003");
+
+      const downSql = readFileSync(
+        join(testMigrationsDir, "003_squashed", "down.sql"),
+        "utf-8",
+      );
+      expect(downSql).toBe(
+        "-- irreversible\n-- No rollback SQL for 003_comments\n",
+      );
+    });
+
+    test("should leave the originals in place when the squash cannot be written", async () => {
+      createSquashFixture();
+      writeFileSync(join(testMigrationsDir, "002_squashed"), "");
+
+      await expect(migrations.squash("002")).rejects.toThrow("EEXIST");
+
+      expect(existsSync(join(testMigrationsDir, "001_users"))).toBe(true);
+      expect(existsSync(join(testMigrationsDir, "_archive"))).toBe(false);
+    });
+
+    test("should refuse to squash partly applied migrations", async () => {
+      createSquashFixture();
+      const rows = [{ id: "uuid-1", migration_name: "001_users" }];
+      mockPrisma.$queryRaw = mock(() => Promise.resolve(rows));
+      migrations = new Migrations(mockPrisma, {
+        migrationsDir: testMigrationsDir,
+        disableLocking: true,
+        skipChecksumValidation: true,
+      });
+
+      await expect(migrations.squash("002")).rejects.toThrow(
+        "Cannot squash up to 002: only 1 of 2 migrations are applied",
+      );
+    });
+  });
+
+  describe("lint", () => {
+    test("should report issues in pending migrations", async () => {
+      createPrismaMigration("001", "cleanup", "DELETE FROM sessions;");
+
+      const issues = await migrations.lint();
+
+      expect(issues.map((issue) => issue.rule)).toEqual([
+        "delete-without-where",
+      ]);
+    });
+
+    test("should refuse to run migrations with lint errors", async () => {
+      createPrismaMigration("001", "cleanup", "DROP TABLE sessions;");
+      migrations = new Migrations(mockPrisma, {
+        migrationsDir: testMigrationsDir,
+        disableLocking: true,
+        lint: { "drop-table": "error" },
+      });
+
+      await expect(migrations.up()).rejects.toThrow(
+        "Migration lint found 1 error(s); no migrations were run",
+      );
+      expect(mockPrisma.$executeRawUnsafe).not.toHaveBeenCalled();
+    });
+
+    test("should run migrations with lint errors when unsafe runs are allowed", async () => {
+      createPrismaMigration("001", "cleanup", "DROP TABLE sessions;");
+      migrations = new Migrations(mockPrisma, {
+        migrationsDir: testMigrationsDir,
+        disableLocking: true,
+        lint: { "drop-table": "error" },
+        allowUnsafe: true,
+      });
+
+      await expect(migrations.up()).resolves.toBe(1);
+    });
+
+    test("should run destructive migrations by default", async () => {
+      createPrismaMigration("001", "cleanup", "DROP TABLE sessions;");
+
+      await expect(migrations.up()).resolves.toBe(1);
+    });
+
+    test("should lint before fresh rolls anything back", async () => {
+      createPrismaMigration(
+        "001",
+        "cleanup",
+        "DROP TABLE sessions;",
+        "CREATE TABLE sessions (id INT);",
+      );
+      mockPrisma.$queryRaw = mock(() => Promise.resolve([{ id: "001" }]));
+      migrations = new Migrations(mockPrisma, {
+        migrationsDir: testMigrationsDir,
+        disableLocking: true,
+        skipChecksumValidation: true,
+        lint: { "drop-table": "error" },
+      });
+
+      await expect(migrations.fresh()).rejects.toThrow(
+        "Migration lint found 1 error(s); no migrations were run",
+      );
+      await expect(migrations.refresh()).rejects.toThrow("lint found");
+      expect(mockPrisma.$executeRawUnsafe).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("verifyRollback", () => {
+    const createScratchDatabase = () => {
+      const tables = new Set<string>();
+      mockPrisma.$executeRawUnsafe = mock((sql: string) => {
+        const created = sql.match(/^CREATE TABLE (\w+)/);
+        const dropped = sql.match(/^DROP TABLE (\w+)/);
+        if (dropped && !tables.has(dropped[1])) {
+          return Promise.reject(new Error(`no such table: ${dropped[1]}`));
+        }
+        if (created) tables.add(created[1]);
+        if (dropped) tables.delete(dropped[1]);
+        return Promise.resolve(1);
+      });
+      mockPrisma.$queryRaw = mock((strings: TemplateStringsArray) => {
+        const isSchemaQuery = strings.join("").includes("sqlite_master");
+        if (!isSchemaQuery) return Promise.resolve([]);
+        const rows = [...tables].map((name) => {
+          return { kind: "table", owner: name, name, definition: "" };
+        });
+        return Promise.resolve(rows);
+      });
+      migrations = new Migrations(mockPrisma, {
+        migrationsDir: testMigrationsDir,
+        disableLocking: true,
+        provider: "sqlite",
+      });
+    };
+
+    test("should report migrations whose down restores the schema", async () => {
+      createPrismaMigration(
+        "001",
+        "users",
+        "CREATE TABLE users (id INT);",
+        "DROP TABLE users;",
+      );
+      createScratchDatabase();
+
+      const results = await migrations.verifyRollback();
+
+      expect(results).toHaveLength(1);
+      expect(results[0].restored).toBe(true);
+      expect(results[0].differences).toEqual([]);
+    });
+
+    test("should report schema left behind by an incomplete down", async () => {
+      createPrismaMigration(
+        "001",
+        "users",
+        "CREATE TABLE users (id INT);",
+        "DROP TABLE users;",
+      );
+      createPrismaMigration(
+        "002",
+        "posts",
+        "CREATE TABLE posts (id INT);",
+        "SELECT 1;",
+      );
+      createScratchDatabase();
+
+      const results = await migrations.verifyRollback(["002"]);
+
+      expect(results).toHaveLength(1);
+      expect(results[0].migration.id).toBe("002");
+      expect(results[0].restored).toBe(false);
+      expect(results[0].differences).toEqual([
+        "after down: unexpected table posts.posts: ",
+      ]);
+    });
+
+    test("should report a down that throws and keep verifying", async () => {
+      createPrismaMigration(
+        "001",
+        "users",
+        "CREATE TABLE users (id INT);",
+        "DROP TABLE accounts;",
+      );
+      createPrismaMigration(
+        "002",
+        "posts",
+        "CREATE TABLE posts (id INT);",
+        "DROP TABLE posts;",
+      );
+      createScratchDatabase();
+
+      const results = await migrations.verifyRollback();
+
+      expect(results).toHaveLength(2);
+      expect(results[0].restored).toBe(false);
+      expect(results[0].differences[0]).toStartWith("down failed:");
+      expect(results[0].differences[0]).toContain("no such table: accounts");
+      expect(results[1].restored).toBe(true);
+    });
+
+    test("should roll the scratch database back after verifying", async () => {
+      createPrismaMigration(
+        "001",
+        "users",
+        "CREATE TABLE users (id INT);",
+        "DROP TABLE users;",
+      );
+      createScratchDatabase();
+      const history = new Set<string>();
+      const readSchema = mockPrisma.$queryRaw;
+      mockPrisma.$executeRaw = mock(
+        (strings: TemplateStringsArray, ...values: unknown[]) => {
+          const sql = strings.join("?");
+          if (sql.includes("INSERT INTO")) history.add(String(values[2]));
+          if (sql.includes("SET rolled_back_at")) {
+            history.delete(String(values[1]));
+          }
+          return Promise.resolve(1);
+        },
+      );
+      mockPrisma.$queryRaw = mock((strings: TemplateStringsArray) => {
+        if (!strings.join("").includes("_prisma_migrations")) {
+          return readSchema(strings);
+        }
+        const rows = [...history].map((name) => {
+          return { id: name, migration_name: name, finished_at: new Date() };
+        });
+        return Promise.resolve(rows);
+      });
+
+      await migrations.verifyRollback();
+
+      expect(history.size).toBe(0);
+      await expect(migrations.verifyRollback()).resolves.toHaveLength(1);
+    });
+
+    test("should refuse databases with applied migrations", async () => {
+      createMigration("001", "first");
+      const rows = [{ id: "uuid", migration_name: "001_first" }];
+      mockPrisma.$queryRaw = mock(() => Promise.resolve(rows));
+      migrations = new Migrations(mockPrisma, {
+        migrationsDir: testMigrationsDir,
+        disableLocking: true,
+        skipChecksumValidation: true,
+        provider: "sqlite",
+      });
+
+      await expect(migrations.verifyRollback()).rejects.toThrow(
+        "Rollback verification needs an empty scratch database",
+      );
+    });
+  });
+
+  describe("irreversible migrations", () => {
+    const createAppliedMigrations = () => {
+      createPrismaMigration(
+        "001",
+        "users",
+        "CREATE TABLE users (id INT);",
+        "DROP TABLE users;",
+      );
+      createPrismaMigration(
+        "002",
+        "purge",
+        "DELETE FROM sessions WHERE expired;",
+        "-- irreversible\n",
+      );
+      createPrismaMigration("003", "posts", "SELECT 1;", "SELECT 2;");
+      const rows = ["001_users", "002_purge", "003_posts"].map((name) => {
+        return { id: name, migration_name: name };
+      });
+      mockPrisma.$queryRaw = mock(() => Promise.resolve(rows));
+      migrations = new Migrations(mockPrisma, {
+        migrationsDir: testMigrationsDir,
+        disableLocking: true,
+        skipChecksumValidation: true,
+      });
+    };
+
+    test("should refuse a rollback range containing an irreversible migration", async () => {
+      createAppliedMigrations();
+
+      await expect(migrations.down(2)).rejects.toThrow(
+        "Cannot roll back 002_purge: marked irreversible",
+      );
+      expect(mockPrisma.$executeRawUnsafe).not.toHaveBeenCalled();
+    });
+
+    test("should refuse reset and downTo before rolling anything back", async () => {
+      createAppliedMigrations();
+
+      await expect(migrations.reset()).rejects.toThrow("marked irreversible");
+      await expect(migrations.downTo("001")).rejects.toThrow(
+        "marked irreversible",
+      );
+      expect(mockPrisma.$executeRawUnsafe).not.toHaveBeenCalled();
+    });
+
+    test("should refuse a rollback range containing a migration without down SQL", async () => {
+      createPrismaMigration(
+        "001",
+        "users",
+        "CREATE TABLE users (id INT);",
+        "DROP TABLE users;",
+      );
+      createPrismaMigration("002", "posts", "CREATE TABLE posts (id INT);");
+      const rows = ["001_users", "002_posts"].map((name) => {
+        return { id: name, migration_name: name };
+      });
+      mockPrisma.$queryRaw = mock(() => Promise.resolve(rows));
+      migrations = new Migrations(mockPrisma, {
+        migrationsDir: testMigrationsDir,
+        disableLocking: true,
+        skipChecksumValidation: true,
+      });
+
+      await expect(migrations.reset()).rejects.toThrow(
+        "Cannot roll back 002_posts: no rollback SQL",
+      );
+      expect(mockPrisma.$executeRawUnsafe).not.toHaveBeenCalled();
+    });
+
+    test("should roll back migrations after the irreversible one", async () => {
+      createAppliedMigrations();
+
+      await expect(migrations.downTo("002")).resolves.toBe(1);
+    });
+
+    test("should surface irreversible migrations in status and lint", async () => {
+      createPrismaMigration(
+        "001",
+        "purge",
+        "-- prisma-migrations: irreversible\nDELETE FROM sessions WHERE expired;",
+      );
+
+      const [status] = await migrations.status();
+      const issues = await migrations.lint();
+
+      expect(status.irreversible).toBe(true);
+      expect(issues.map((issue) => issue.rule)).toEqual(["irreversible"]);
+    });
+  });
+
+  describe("failed migrations", () => {
+    const findFailureInsert = () => {
+      return mockPrisma.$executeRaw.mock.calls.find(([query]) => {
+        const sql = String(query);
+        return sql.includes("INSERT INTO") && sql.includes(", NULL, ");
+      });
+    };
+
+    test("should record a failed transactional migration", async () => {
+      createPrismaMigration("001", "users", "SELECT 1;\nSELECT 2;");
+      mockPrisma.$executeRawUnsafe = mock((query: string) => {
+        if (query.includes("2")) return Promise.reject(new Error("boom"));
+        return Promise.resolve(1);
+      });
+
+      await expect(migrations.up()).rejects.toThrow(
+        "Transaction failed for migration 001_users: boom",
+      );
+
+      const [, , , migrationName, logs, appliedSteps] = findFailureInsert()!;
+      expect(migrationName).toBe("001_users");
+      expect(logs).toBe("boom\nFailed statement 2 of 2: SELECT 2");
+      expect(appliedSteps).toBe(0);
+    });
+
+    test("should record statements committed before a failure on MySQL", async () => {
+      createPrismaMigration("001", "users", "SELECT 1;\nSELECT 2;\nSELECT 3;");
+      mockPrisma.$executeRawUnsafe = mock((query: string) => {
+        if (query.includes("2")) return Promise.reject(new Error("boom"));
+        return Promise.resolve(1);
+      });
+      migrations = new Migrations(mockPrisma, {
+        migrationsDir: testMigrationsDir,
+        disableLocking: true,
+        provider: "mysql",
+      });
+
+      await expect(migrations.up()).rejects.toThrow("boom");
+
+      const [, , , , , appliedSteps] = findFailureInsert()!;
+      expect(appliedSteps).toBe(1);
+    });
+
+    test("should resume a MySQL migration after its committed statements", async () => {
+      createPrismaMigration("001", "users", "SELECT 1;\nSELECT 2;\nSELECT 3;");
+      const checksum = await generateChecksum(
+        join(testMigrationsDir, "001_users", "migration.sql"),
+      );
+      const rows = [
+        {
+          id: "uuid",
+          migration_name: "001_users",
+          checksum,
+          finished_at: null,
+          logs: "boom",
+          applied_steps_count: 1,
+        },
+      ];
+      mockPrisma.$queryRaw = mock(() => Promise.resolve(rows));
+      migrations = new Migrations(mockPrisma, {
+        migrationsDir: testMigrationsDir,
+        disableLocking: true,
+        provider: "mysql",
+      });
+
+      await migrations.retryFailed("001");
+
+      expect(mockPrisma.$executeRawUnsafe).toHaveBeenCalledTimes(2);
+      expect(mockPrisma.$executeRawUnsafe).not.toHaveBeenCalledWith("SELECT 1");
+    });
+
+    test("should record statements applied before a non-transactional failure", async () => {
+      createPrismaMigration(
+        "001",
+        "partial",
+        `-- prisma-migrations: transaction=false
+SELECT 1;
+SELECT 2;
+SELECT 3;`,
+      );
+      mockPrisma.$executeRawUnsafe = mock((query: string) => {
+        if (query.includes("3")) return Promise.reject(new Error("boom"));
+        return Promise.resolve(1);
+      });
+
+      await expect(migrations.up()).rejects.toThrow(
+        "failed at statement 3 of 3",
+      );
+
+      const failureUpdate = mockPrisma.$executeRaw.mock.calls.find(([query]) =>
+        String(query).includes("SET logs ="),
+      )!;
+      const [, logs, appliedSteps] = failureUpdate;
+      expect(logs).toContain("Failed statement 3 of 3");
+      const checksum = generateStatementsChecksum([
+        "-- prisma-migrations: transaction=false\nSELECT 1",
+        "SELECT 2",
+      ]);
+      expect(logs).toContain(`Applied statements checksum: ${checksum}`);
+      expect(appliedSteps).toBe(2);
+    });
+
+    test("should not record failed rollbacks", async () => {
+      createPrismaMigration("001", "users", "SELECT 1;", "SELECT 2;");
+      mockPrisma.$queryRaw = mock(() => Promise.resolve([{ id: "001" }]));
+      mockPrisma.$executeRawUnsafe = mock(() => {
+        return Promise.reject(new Error("boom"));
+      });
+
+      await expect(migrations.down()).rejects.toThrow("boom");
+
+      expect(findFailureInsert()).toBeUndefined();
+    });
+
+    test("should show failed migrations in status", async () => {
+      createMigration("001", "first");
+      createMigration("002", "second");
+      const rows = [
+        { id: "uuid", migration_name: "001_first" },
+        { id: "uuid2", migration_name: "002_second", finished_at: null },
+      ];
+      mockPrisma.$queryRaw = mock(() => Promise.resolve(rows));
+
+      const result = await migrations.status();
+
+      expect(result).toEqual([
+        { migration: expect.objectContaining({ id: "001" }), applied: true },
+        {
+          migration: expect.objectContaining({ id: "002" }),
+          applied: false,
+          failed: true,
+        },
+      ]);
+    });
+  });
+
+  describe("resolving failed migrations", () => {
+    const createFailedHistory = () => {
+      createMigration("001", "first");
+      createMigration("002", "second");
+      const rows = [
+        { id: "uuid", migration_name: "001_first" },
+        {
+          id: "uuid2",
+          migration_name: "002_second",
+          finished_at: null,
+          logs: "boom",
+          applied_steps_count: 1,
+        },
+      ];
+      mockPrisma.$queryRaw = mock(() => Promise.resolve(rows));
+      migrations = new Migrations(mockPrisma, {
+        migrationsDir: testMigrationsDir,
+        disableLocking: true,
+        skipChecksumValidation: true,
+      });
+    };
+
+    const historyQueries = () => {
+      return mockPrisma.$executeRaw.mock.calls.map(([query]) => String(query));
+    };
+
+    test("should list failed migrations with their logs", async () => {
+      createFailedHistory();
+
+      const failed = await migrations.failed();
+
+      expect(failed).toEqual([
+        {
+          migration: expect.objectContaining({ id: "002" }),
+          missing: false,
+          logs: "boom",
+          appliedStepsCount: 1,
+        },
+      ]);
+    });
+
+    test("should mark a failed migration as applied", async () => {
+      createFailedHistory();
+
+      await migrations.markApplied("002");
+
+      expect(mockPrisma.$transaction).toHaveBeenCalledTimes(1);
+      expect(mockPrisma.$executeRawUnsafe).not.toHaveBeenCalled();
+      const queries = historyQueries();
+      expect(queries.some((query) => query.includes("rolled_back_at ="))).toBe(
+        true,
+      );
+      expect(queries.some((query) => query.includes("INSERT INTO"))).toBe(true);
+    });
+
+    test("should refuse to mark an applied migration as applied", async () => {
+      createFailedHistory();
+
+      await expect(migrations.markApplied("001")).rejects.toThrow(
+        "Migration 001 is already applied",
+      );
+    });
+
+    test("should mark a failed migration as rolled back", async () => {
+      createFailedHistory();
+
+      await migrations.markRolledBack("002");
+
+      expect(mockPrisma.$executeRawUnsafe).not.toHaveBeenCalled();
+      expect(
+        historyQueries().some((query) => query.includes("rolled_back_at =")),
+      ).toBe(true);
+    });
+
+    test("should only resolve migrations that failed", async () => {
+      createFailedHistory();
+
+      await expect(migrations.markRolledBack("001")).rejects.toThrow(
+        "Migration 001_first has no failed attempt to resolve",
+      );
+    });
+
+    test("should retry a failed migration", async () => {
+      createFailedHistory();
+
+      await migrations.retryFailed("002");
+
+      expect(mockPrisma.$executeRawUnsafe).toHaveBeenCalledTimes(1);
+    });
+
+    const createFailedRepeatable = () => {
+      const repeatableDir = join(testMigrationsDir, "repeatable");
+      mkdirSync(repeatableDir, { recursive: true });
+      writeFileSync(
+        join(repeatableDir, "active_users.sql"),
+        "CREATE VIEW active_users AS SELECT 1;",
+      );
+      const rows = [
+        {
+          id: "uuid",
+          migration_name: "R__active_users",
+          finished_at: null,
+          logs: "boom",
+        },
+      ];
+      mockPrisma.$queryRaw = mock(() => Promise.resolve(rows));
+      migrations = new Migrations(mockPrisma, {
+        migrationsDir: testMigrationsDir,
+        disableLocking: true,
+        skipChecksumValidation: true,
+      });
+    };
+
+    test("should list and retry a failed repeatable migration", async () => {
+      createFailedRepeatable();
+
+      const failed = await migrations.failed();
+      await migrations.retryFailed("R__active_users");
+
+      expect(failed[0].migration.id).toBe("R__active_users");
+      expect(failed[0].missing).toBe(false);
+      expect(mockPrisma.$executeRawUnsafe).toHaveBeenCalledWith(
+        "CREATE VIEW active_users AS SELECT 1",
+      );
+    });
+
+    test("should list failed migrations whose file is missing", async () => {
+      const rows = [
+        {
+          id: "uuid",
+          migration_name: "003_removed",
+          finished_at: null,
+          logs: "boom",
+        },
+      ];
+      mockPrisma.$queryRaw = mock(() => Promise.resolve(rows));
+      migrations = new Migrations(mockPrisma, {
+        migrationsDir: testMigrationsDir,
+        disableLocking: true,
+        skipChecksumValidation: true,
+      });
+
+      const failed = await migrations.failed();
+      await migrations.markRolledBack("003");
+
+      expect(failed[0].missing).toBe(true);
+      expect(failed[0].migration).toMatchObject({ id: "003", name: "removed" });
+      expect(
+        historyQueries().some((query) => query.includes("rolled_back_at =")),
+      ).toBe(true);
+    });
+  });
+
+  describe("statement progress", () => {
+    const createLongMigration = () => {
+      createPrismaMigration(
+        "001",
+        "backfill",
+        `-- prisma-migrations: transaction=false
+SELECT 1;
+SELECT 2;
+SELECT 3;`,
+      );
+    };
+
+    const stepUpdates = () => {
+      return mockPrisma.$executeRaw.mock.calls
+        .filter(([query]) => String(query).includes("SET applied_steps_count"))
+        .map(([, count]) => count);
+    };
+
+    test("should update the step count after each statement", async () => {
+      createLongMigration();
+
+      await migrations.up();
+
+      expect(stepUpdates()).toEqual([1, 2, 3]);
+      const finished = mockPrisma.$executeRaw.mock.calls.find(([query]) =>
+        String(query).includes("SET finished_at"),
+      );
+      expect(finished?.[1]).toBe(3);
+    });
+
+    test("should report progress to the listener", async () => {
+      createLongMigration();
+      const onProgress = mock(() => undefined);
+      migrations = new Migrations(mockPrisma, {
+        migrationsDir: testMigrationsDir,
+        disableLocking: true,
+        onProgress,
+      });
+
+      await migrations.up();
+
+      expect(onProgress).toHaveBeenCalledTimes(3);
+      expect(onProgress).toHaveBeenLastCalledWith(
+        expect.objectContaining({ statement: 3, statementCount: 3 }),
+      );
+    });
+
+    test("should resume a failed migration from the first unapplied statement", async () => {
+      createLongMigration();
+      const checksum = await generateChecksum(
+        join(testMigrationsDir, "001_backfill", "migration.sql"),
+      );
+      const rows = [
+        {
+          id: "uuid",
+          migration_name: "001_backfill",
+          checksum,
+          finished_at: null,
+          applied_steps_count: 2,
+        },
+      ];
+      mockPrisma.$queryRaw = mock(() => Promise.resolve(rows));
+
+      await migrations.retryFailed("001");
+
+      expect(mockPrisma.$executeRawUnsafe).toHaveBeenCalledTimes(1);
+      expect(mockPrisma.$executeRawUnsafe).toHaveBeenCalledWith("SELECT 3");
+    });
+
+    test("should start over when the failed migration has changed", async () => {
+      createLongMigration();
+      const rows = [
+        {
+          id: "uuid",
+          migration_name: "001_backfill",
+          checksum: "outdated",
+          finished_at: null,
+          applied_steps_count: 2,
+        },
+      ];
+      mockPrisma.$queryRaw = mock(() => Promise.resolve(rows));
+
+      await migrations.retryFailed("001");
+
+      expect(mockPrisma.$executeRawUnsafe).toHaveBeenCalledTimes(3);
+    });
+
+    test("should resume when only unapplied statements changed", async () => {
+      createLongMigration();
+      const applied = generateStatementsChecksum([
+        "-- prisma-migrations: transaction=false\nSELECT 1",
+        "SELECT 2",
+      ]);
+      const rows = [
+        {
+          id: "uuid",
+          migration_name: "001_backfill",
+          checksum: "outdated",
+          finished_at: null,
+          logs: `boom\nApplied statements checksum: ${applied}`,
+          applied_steps_count: 2,
+        },
+      ];
+      mockPrisma.$queryRaw = mock(() => Promise.resolve(rows));
+
+      await migrations.retryFailed("001");
+
+      expect(mockPrisma.$executeRawUnsafe).toHaveBeenCalledTimes(1);
+      expect(mockPrisma.$executeRawUnsafe).toHaveBeenCalledWith("SELECT 3");
+    });
+
+    test("should start over when an applied statement changed", async () => {
+      createLongMigration();
+      const applied = generateStatementsChecksum([
+        "-- prisma-migrations: transaction=false\nSELECT 1",
+        "SELECT 0",
+      ]);
+      const rows = [
+        {
+          id: "uuid",
+          migration_name: "001_backfill",
+          checksum: "outdated",
+          finished_at: null,
+          logs: `boom\nApplied statements checksum: ${applied}`,
+          applied_steps_count: 2,
+        },
+      ];
+      mockPrisma.$queryRaw = mock(() => Promise.resolve(rows));
+
+      await migrations.retryFailed("001");
+
+      expect(mockPrisma.$executeRawUnsafe).toHaveBeenCalledTimes(3);
+    });
+  });
+
+  describe("atomic mode", () => {
+    const createAtomicMigrations = (provider: DatabaseProvider) => {
+      migrations = new Migrations(mockPrisma, {
+        migrationsDir: testMigrationsDir,
+        disableLocking: true,
+        provider,
+        atomic: true,
+      });
+    };
+
+    test("should apply every migration in a single transaction", async () => {
+      createPrismaMigration("001", "first");
+      createPrismaMigration("002", "second");
+      createPrismaMigration("003", "third");
+      createAtomicMigrations("postgresql");
+
+      await expect(migrations.up()).resolves.toBe(3);
+
+      expect(mockPrisma.$transaction).toHaveBeenCalledTimes(1);
+      expect(mockPrisma.$executeRawUnsafe).toHaveBeenCalledTimes(3);
+    });
+
+    test("should name the failing migration and the batch size", async () => {
+      createPrismaMigration("001", "first");
+      createPrismaMigration("002", "second", "SELECT 2;");
+      mockPrisma.$executeRawUnsafe = mock((query: string) => {
+        if (query.includes("2")) return Promise.reject(new Error("boom"));
+        return Promise.resolve(1);
+      });
+      createAtomicMigrations("sqlite");
+
+      await expect(migrations.up()).rejects.toThrow(
+        "Atomic batch failed at migration 002_second: boom",
+      );
+      const recordedNames = mockPrisma.$executeRaw.mock.calls.flat();
+      expect(recordedNames).not.toContain("002_second");
+    });
+
+    test("should reset settings before the next migration in the batch", async () => {
+      const calls: string[] = [];
+      mockPrisma.$executeRawUnsafe = mock((statement: string) => {
+        calls.push(statement);
+        return Promise.resolve(1);
+      });
+      createPrismaMigration(
+        "001",
+        "audit",
+        "-- prisma-migrations: search_path=audit\nCREATE TABLE events (id INT);",
+      );
+      createPrismaMigration("002", "users", "CREATE TABLE users (id INT);");
+      createAtomicMigrations("postgresql");
+
+      await migrations.up();
+
+      expect(calls).toEqual([
+        "SET LOCAL search_path TO audit",
+        expect.stringContaining("CREATE TABLE events (id INT)"),
+        "SET LOCAL search_path TO DEFAULT",
+        "CREATE TABLE users (id INT)",
+      ]);
+    });
+
+    test("should refuse providers without transactional DDL", async () => {
+      createPrismaMigration("001", "first");
+      createAtomicMigrations("mysql");
+
+      await expect(migrations.up()).rejects.toThrow(
+        "Atomic mode is not supported on mysql",
+      );
+      expect(mockPrisma.$executeRawUnsafe).not.toHaveBeenCalled();
+    });
+
+    test("should refuse migrations that opt out of transactions", async () => {
+      createPrismaMigration("001", "first");
+      createPrismaMigration(
+        "002",
+        "concurrent_index",
+        "-- prisma-migrations: transaction=false\nCREATE INDEX CONCURRENTLY idx ON users (email);",
+      );
+      createAtomicMigrations("postgresql");
+
+      await expect(migrations.up()).rejects.toThrow(
+        "Atomic mode cannot include 002_concurrent_index: it uses transaction=false",
+      );
+      expect(mockPrisma.$executeRawUnsafe).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("rollback-batch failure mode", () => {
+    const createBatch = () => {
+      createPrismaMigration("001", "users", "UP users;", "DOWN users;");
+      createPrismaMigration("002", "posts", "UP posts;", "DOWN posts;");
+      createPrismaMigration("003", "tags", "UP tags;", "DOWN tags;");
+      migrations = new Migrations(mockPrisma, {
+        migrationsDir: testMigrationsDir,
+        disableLocking: true,
+        onFailure: "rollback-batch",
+      });
+    };
+
+    const failOn = (failing: string[]) => {
+      mockPrisma.$executeRawUnsafe = mock((query: string) => {
+        if (failing.includes(query)) return Promise.reject(new Error("boom"));
+        return Promise.resolve(1);
+      });
+    };
+
+    const executedStatements = () => {
+      return mockPrisma.$executeRawUnsafe.mock.calls.map(([query]) => query);
+    };
+
+    test("should roll back migrations applied earlier in the batch", async () => {
+      createBatch();
+      failOn(["UP tags"]);
+
+      const error = await migrations.up().catch((caught) => caught);
+
+      expect(error).toBeInstanceOf(MigrationBatchError);
+      expect(error.message).toBe(
+        "Transaction failed for migration 003_tags: boom; rolled back 2 of 2 migration(s) applied earlier in this batch",
+      );
+      expect(error.summary).toEqual({
+        applied: ["001_users", "002_posts"],
+        failed: "003_tags",
+        compensated: ["002_posts", "001_users"],
+        notCompensated: [],
+        compensationError: undefined,
+      });
+      expect(executedStatements()).toEqual([
+        "UP users",
+        "UP posts",
+        "UP tags",
+        "DOWN posts",
+        "DOWN users",
+      ]);
+    });
+
+    test("should report migrations it could not roll back", async () => {
+      createBatch();
+      failOn(["UP tags", "DOWN posts"]);
+
+      const error = await migrations.up().catch((caught) => caught);
+
+      expect(error.summary.compensated).toEqual([]);
+      expect(error.summary.notCompensated).toEqual(["002_posts", "001_users"]);
+      expect(error.summary.compensationError).toContain("boom");
+    });
+
+    test("should list applied repeatables as not rolled back", async () => {
+      createBatch();
+      const repeatableDir = join(testMigrationsDir, "repeatable");
+      mkdirSync(repeatableDir, { recursive: true });
+      writeFileSync(join(repeatableDir, "active_users.sql"), "VIEW users;");
+      writeFileSync(join(repeatableDir, "recent_posts.sql"), "VIEW posts;");
+      failOn(["VIEW posts"]);
+
+      const error = await migrations.up().catch((caught) => caught);
+
+      expect(error.summary.failed).toBe("R__recent_posts");
+      expect(error.summary.compensated).toEqual([
+        "003_tags",
+        "002_posts",
+        "001_users",
+      ]);
+      expect(error.summary.notCompensated).toEqual(["R__active_users"]);
+    });
+
+    test("should refuse a batch with an irreversible migration", async () => {
+      createBatch();
+      createPrismaMigration("004", "purge", "UP purge;", "-- irreversible\n");
+
+      await expect(migrations.up()).rejects.toThrow(
+        "Cannot roll back 004_purge: marked irreversible",
+      );
+      expect(mockPrisma.$executeRawUnsafe).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("check and verify files", () => {
+    const createCheckedMigration = (
+      files: Record<string, string>,
+      upSql = "UPDATE users SET email = 'x' WHERE email IS NULL;",
+    ) => {
+      createPrismaMigration("001", "require_email", upSql);
+      Object.entries(files).forEach(([fileName, sql]) => {
+        writeFileSync(
+          join(testMigrationsDir, "001_require_email", fileName),
+          sql,
+        );
+      });
+    };
+
+    const returnRowsFor = (failing: string) => {
+      mockPrisma.$queryRawUnsafe = mock((query: string) => {
+        if (query === failing) return Promise.resolve([{ id: 1 }, { id: 2 }]);
+        return Promise.resolve([]);
+      });
+    };
+
+    const hasHistoryInsert = () => {
+      return mockPrisma.$executeRaw.mock.calls.some(([query]) => {
+        return String(query).includes("INSERT INTO _prisma_migrations");
+      });
+    };
+
+    test("should run check and verify queries around the migration", async () => {
+      createCheckedMigration({
+        "check.sql": "SELECT id FROM users WHERE email IS NULL;",
+        "verify.sql": "SELECT id FROM users WHERE email = '';",
+      });
+
+      const count = await migrations.up();
+
+      expect(count).toBe(1);
+      expect(
+        mockPrisma.$queryRawUnsafe.mock.calls.map(([query]) => query),
+      ).toEqual([
+        "SELECT id FROM users WHERE email IS NULL",
+        "SELECT id FROM users WHERE email = ''",
+      ]);
+    });
+
+    test("should abort without recording a failure when check.sql returns rows", async () => {
+      createCheckedMigration({
+        "check.sql": "SELECT id FROM users WHERE email IS NULL;",
+      });
+      returnRowsFor("SELECT id FROM users WHERE email IS NULL");
+
+      await expect(migrations.up()).rejects.toThrow(
+        "check.sql for migration 001_require_email returned 2 row(s); the migration was not applied",
+      );
+      expect(mockPrisma.$executeRawUnsafe).not.toHaveBeenCalled();
+      expect(hasHistoryInsert()).toBe(false);
+    });
+
+    test("should check non-transactional migrations before the first statement", async () => {
+      createCheckedMigration(
+        { "check.sql": "SELECT id FROM users WHERE email IS NULL;" },
+        "-- prisma-migrations: transaction=false\nUPDATE users SET email = 'x' WHERE email IS NULL;",
+      );
+      returnRowsFor("SELECT id FROM users WHERE email IS NULL");
+
+      await expect(migrations.up()).rejects.toThrow("returned 2 row(s)");
+      expect(mockPrisma.$executeRawUnsafe).not.toHaveBeenCalled();
+      expect(hasHistoryInsert()).toBe(false);
+    });
+
+    test("should fail and record the migration when verify.sql returns rows", async () => {
+      createCheckedMigration({
+        "verify.sql": "SELECT id FROM users WHERE email = '';",
+      });
+      returnRowsFor("SELECT id FROM users WHERE email = ''");
+
+      await expect(migrations.up()).rejects.toThrow(
+        "verify.sql for migration 001_require_email returned 2 row(s)",
+      );
+      const failureInsert = mockPrisma.$executeRaw.mock.calls.find(([query]) =>
+        String(query).includes(", NULL, "),
+      )!;
+      expect(failureInsert[4]).toBe(
+        "verify.sql returned 2 row(s)\nQuery: SELECT id FROM users WHERE email = ''",
+      );
+    });
+
+    test("should reject verify.sql on non-transactional migrations", async () => {
+      createCheckedMigration(
+        { "verify.sql": "SELECT 1;" },
+        "-- prisma-migrations: transaction=false\nUPDATE users SET email = 'x' WHERE email IS NULL;",
+      );
+
+      await expect(migrations.up()).rejects.toThrow(
+        "verify.sql requires a transaction",
+      );
+      expect(mockPrisma.$executeRawUnsafe).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("conditional migrations", () => {
+    const skippedRow = {
+      id: "001",
+      migration_name: "001_legacy_orders",
+      logs: "Skipped: condition.sql returned false",
+    };
+
+    const createConditionalMigration = () => {
+      createPrismaMigration(
+        "001",
+        "legacy_orders",
+        "ALTER TABLE legacy_orders ADD COLUMN synced BOOLEAN;",
+        "ALTER TABLE legacy_orders DROP COLUMN synced;",
+      );
+      writeFileSync(
+        join(testMigrationsDir, "001_legacy_orders", "condition.sql"),
+        "SELECT to_regclass('legacy_orders') IS NOT NULL AS present;",
+      );
+    };
+
+    const setCondition = (present: unknown) => {
+      mockPrisma.$queryRawUnsafe = mock(() => Promise.resolve([{ present }]));
+    };
+
+    const executedStatements = () => {
+      return mockPrisma.$executeRawUnsafe.mock.calls.map(([query]) => query);
+    };
+
+    const historyWrites = () => {
+      return mockPrisma.$executeRaw.mock.calls.map(([query]) => String(query));
+    };
+
+    test("should record a skipped migration when the condition is false", async () => {
+      createConditionalMigration();
+      setCondition(false);
+
+      const count = await migrations.up();
+
+      expect(count).toBe(0);
+      expect(executedStatements()).toEqual([]);
+      const skippedInsert = mockPrisma.$executeRaw.mock.calls.find(([query]) =>
+        String(query).includes("INSERT INTO"),
+      )!;
+      expect(skippedInsert).toContain("Skipped: condition.sql returned false");
+    });
+
+    test("should run the migration when the condition is true", async () => {
+      createConditionalMigration();
+      setCondition("t");
+
+      const count = await migrations.up();
+
+      expect(count).toBe(1);
+      expect(executedStatements()).toEqual([
+        "ALTER TABLE legacy_orders ADD COLUMN synced BOOLEAN",
+      ]);
+    });
+
+    test("should show skipped migrations distinctly", async () => {
+      createConditionalMigration();
+      mockPrisma.$queryRaw = mock(() => Promise.resolve([skippedRow]));
+
+      const statuses = await migrations.status();
+      const pending = await migrations.pending();
+      const skipped = await migrations.skipped();
+
+      expect(statuses[0]).toEqual({
+        migration: expect.objectContaining({ id: "001" }),
+        applied: false,
+        skipped: true,
+      });
+      expect(pending).toEqual([]);
+      expect(skipped.map((migration) => migration.id)).toEqual(["001"]);
+    });
+
+    test("should apply a skipped migration whose condition now holds", async () => {
+      createConditionalMigration();
+      mockPrisma.$queryRaw = mock(() => Promise.resolve([skippedRow]));
+      setCondition(true);
+      const recheck = new Migrations(mockPrisma, {
+        migrationsDir: testMigrationsDir,
+        disableLocking: true,
+        recheckSkipped: true,
+      });
+
+      const count = await recheck.up();
+
+      expect(count).toBe(1);
+      expect(executedStatements()).toEqual([
+        "ALTER TABLE legacy_orders ADD COLUMN synced BOOLEAN",
+      ]);
+      const writes = historyWrites();
+      const rolledBackIndex = writes.findIndex((query) =>
+        query.includes("SET rolled_back_at"),
+      );
+      const insertIndex = writes.findIndex((query) =>
+        query.includes("INSERT INTO"),
+      );
+      expect(rolledBackIndex).toBeGreaterThanOrEqual(0);
+      expect(rolledBackIndex).toBeLessThan(insertIndex);
+    });
+
+    test("should leave a rechecked migration skipped when the condition is still false", async () => {
+      createConditionalMigration();
+      mockPrisma.$queryRaw = mock(() => Promise.resolve([skippedRow]));
+      setCondition(false);
+      const recheck = new Migrations(mockPrisma, {
+        migrationsDir: testMigrationsDir,
+        disableLocking: true,
+        recheckSkipped: true,
+      });
+
+      const count = await recheck.up();
+
+      expect(count).toBe(0);
+      const changes = historyWrites().filter((query) => {
+        return (
+          query.includes("INSERT INTO") || query.includes("SET rolled_back_at")
+        );
+      });
+      expect(changes).toEqual([]);
+    });
+
+    test("should clear a skipped migration on down without running down.sql", async () => {
+      createConditionalMigration();
+      mockPrisma.$queryRaw = mock(() => Promise.resolve([skippedRow]));
+
+      const count = await migrations.down();
+
+      expect(count).toBe(1);
+      expect(executedStatements()).toEqual([]);
+      expect(
+        historyWrites().some((query) => query.includes("SET rolled_back_at")),
+      ).toBe(true);
+    });
+  });
+
+  describe("golang-migrate layout", () => {
+    const createFlatMigration = (
+      baseName: string,
+      upSql: string,
+      downSql?: string,
+    ) => {
+      writeFileSync(join(testMigrationsDir, `${baseName}.up.sql`), upSql);
+      if (downSql === undefined) return;
+      writeFileSync(join(testMigrationsDir, `${baseName}.down.sql`), downSql);
+    };
+
+    const createFlatMigrations = () => {
+      return new Migrations(mockPrisma, {
+        migrationsDir: testMigrationsDir,
+        disableLocking: true,
+        layout: "golang-migrate",
+      });
+    };
+
+    test("should discover flat up and down files in numeric order", async () => {
+      createFlatMigration("10_add_index", "SELECT 10;");
+      createFlatMigration("2_add_column", "SELECT 2;", "SELECT -2;");
+      createFlatMigration("1_create_users", "SELECT 1;", "SELECT -1;");
+
+      const pending = await createFlatMigrations().pending();
+
+      expect(pending.map((migration) => migration.id)).toEqual([
+        "1",
+        "2",
+        "10",
+      ]);
+      expect(pending[0]).toEqual(
+        expect.objectContaining({
+          name: "create_users",
+          path: join(testMigrationsDir, "1_create_users.up.sql"),
+          downPath: join(testMigrationsDir, "1_create_users.down.sql"),
+        }),
+      );
+      expect(pending[2].downPath).toBeUndefined();
+    });
+
+    test("should apply and roll back flat migrations", async () => {
+      createFlatMigration(
+        "1_create_users",
+        "CREATE TABLE users (id INT);",
+        "DROP TABLE users;",
+      );
+      const flat = createFlatMigrations();
+
+      const applied = await flat.up();
+      mockPrisma.$queryRaw = mock(() => Promise.resolve([{ id: "1" }]));
+      const rolledBack = await flat.down();
+
+      expect(applied).toBe(1);
+      expect(rolledBack).toBe(1);
+      const statements = mockPrisma.$executeRawUnsafe.mock.calls.map(
+        ([query]) => query,
+      );
+      expect(statements).toEqual([
+        "CREATE TABLE users (id INT)",
+        "DROP TABLE users",
+      ]);
+    });
+
+    test("should ignore migration directories", async () => {
+      createPrismaMigration("001", "first");
+      createFlatMigration("1_create_users", "SELECT 1;");
+
+      const pending = await createFlatMigrations().pending();
+
+      expect(pending.map((migration) => migration.name)).toEqual([
+        "create_users",
+      ]);
+    });
+
+    test("should reject a down file without a matching up file", async () => {
+      writeFileSync(join(testMigrationsDir, "3_orphan.down.sql"), "SELECT 1;");
+
+      await expect(createFlatMigrations().pending()).rejects.toThrow(
+        "Migration 3_orphan.down.sql has no matching 3_orphan.up.sql file",
+      );
+    });
+
+    test("should refuse to squash flat migrations", async () => {
+      createFlatMigration("1_create_users", "SELECT 1;");
+
+      await expect(createFlatMigrations().squash("1")).rejects.toThrow(
+        "Squash only supports the prisma layout",
+      );
+    });
+  });
+
+  describe("flyway layout", () => {
+    const createFlywayFile = (fileName: string, sql = "SELECT 1;") => {
+      writeFileSync(join(testMigrationsDir, fileName), sql);
+    };
+
+    const createFlywayMigrations = () => {
+      return new Migrations(mockPrisma, {
+        migrationsDir: testMigrationsDir,
+        disableLocking: true,
+        layout: "flyway",
+      });
+    };
+
+    test("should sort dotted versions semantically", async () => {
+      createFlywayFile("V1.10__add_index.sql");
+      createFlywayFile("V1.2__add_column.sql");
+      createFlywayFile("V1__create_users.sql");
+      createFlywayFile("V1_2_1__backfill.sql");
+
+      const pending = await createFlywayMigrations().pending();
+
+      expect(pending.map((migration) => migration.id)).toEqual([
+        "1",
+        "1.2",
+        "1.2.1",
+        "1.10",
+      ]);
+      expect(pending[0].name).toBe("create_users");
+    });
+
+    test("should use undo scripts as the down direction", async () => {
+      createFlywayFile("V1__create_users.sql", "CREATE TABLE users (id INT);");
+      createFlywayFile("U1__create_users.sql", "DROP TABLE users;");
+      mockPrisma.$queryRaw = mock(() =>
+        Promise.resolve([{ id: "uuid", migration_name: "1_create_users" }]),
+      );
+
+      const count = await createFlywayMigrations().down();
+
+      expect(count).toBe(1);
+      expect(mockPrisma.$executeRawUnsafe).toHaveBeenCalledWith(
+        "DROP TABLE users",
+      );
+    });
+
+    test("should treat dotted versions in history as applied", async () => {
+      createFlywayFile("V1.2__add_column.sql");
+      mockPrisma.$queryRaw = mock(() =>
+        Promise.resolve([{ id: "uuid", migration_name: "1.2_add_column" }]),
+      );
+
+      const pending = await createFlywayMigrations().pending();
+
+      expect(pending).toEqual([]);
+    });
+
+    test("should reject an undo script without a versioned script", async () => {
+      createFlywayFile("U2__orphan.sql");
+
+      await expect(createFlywayMigrations().pending()).rejects.toThrow(
+        "Migration U2__orphan.sql has no matching V2__orphan.sql file",
+      );
+    });
+  });
+
+  describe("importing from other tools", () => {
+    const sourceDir = join(testMigrationsDir, "..", "test-import-source");
+
+    const setSourceRows = (names: string[]) => {
+      mockPrisma.$queryRawUnsafe = mock(() =>
+        Promise.resolve(names.map((name) => ({ name }))),
+      );
+    };
+
+    const readImported = (directory: string, fileName: string) => {
+      return readFileSync(
+        join(testMigrationsDir, directory, fileName),
+        "utf-8",
+      );
+    };
+
+    const historyInserts = () => {
+      return mockPrisma.$executeRaw.mock.calls.filter(([query]) =>
+        String(query).includes("INSERT INTO"),
+      );
+    };
+
+    afterEach(() => {
+      rmSync(sourceDir, { recursive: true, force: true });
+    });
+
+    test("should import applied knex migrations as recorded SQL stubs", async () => {
+      setSourceRows([
+        "20240101120000_create_users.js",
+        "20240102120000_add_email.js",
+      ]);
+
+      const imported = await migrations.importFrom("knex");
+
+      expect(mockPrisma.$queryRawUnsafe).toHaveBeenCalledWith(
+        'SELECT name FROM "knex_migrations" ORDER BY id',
+      );
+      expect(imported.map((migration) => migration.id)).toEqual([
+        "20240101120000",
+        "20240102120000",
+      ]);
+      expect(
+        readImported("20240101120000_create_users", "migration.sql"),
+      ).toContain(
+        "Imported from knex migration 20240101120000_create_users.js",
+      );
+      expect(historyInserts().length).toBe(2);
+    });
+
+    test("should let a fresh database apply imported stubs", async () => {
+      setSourceRows(["20240101120000_create_users.js"]);
+      await migrations.importFrom("knex");
+
+      await expect(migrations.up()).resolves.toBe(1);
+      expect(historyInserts().length).toBe(2);
+    });
+
+    test("should turn unapplied source files into stubs to port", async () => {
+      mkdirSync(sourceDir, { recursive: true });
+      writeFileSync(join(sourceDir, "20240101120000-create-user.js"), "");
+      writeFileSync(join(sourceDir, "20240102120000-add-email.js"), "");
+      writeFileSync(join(sourceDir, "README.md"), "");
+      setSourceRows(["20240101120000-create-user.js"]);
+
+      const imported = await migrations.importFrom("sequelize", { sourceDir });
+
+      expect(
+        imported.map((migration) => [migration.name, migration.applied]),
+      ).toEqual([
+        ["create_user", true],
+        ["add_email", false],
+      ]);
+      expect(
+        readImported("20240102120000_add_email", "migration.ts"),
+      ).toContain(
+        "Port 20240102120000-add-email.js from sequelize before applying it",
+      );
+      expect(historyInserts().length).toBe(1);
+    });
+
+    test("should name TypeORM migrations after their class", async () => {
+      setSourceRows(["CreateUsers1700000000000"]);
+
+      const imported = await migrations.importFrom("typeorm", {
+        table: "typeorm_migrations",
+      });
+
+      expect(mockPrisma.$queryRawUnsafe).toHaveBeenCalledWith(
+        'SELECT name FROM "typeorm_migrations" ORDER BY id',
+      );
+      expect(imported[0]).toEqual(
+        expect.objectContaining({ id: "1700000000000", name: "create_users" }),
+      );
+    });
+
+    test("should refuse to overwrite existing migration directories", async () => {
+      createPrismaMigration("20240101120000", "create_users");
+      setSourceRows(["20240101120000_create_users.js"]);
+
+      await expect(migrations.importFrom("knex")).rejects.toThrow(
+        "Cannot import: 20240101120000_create_users already exists",
+      );
+      expect(historyInserts()).toEqual([]);
+    });
+
+    test("should refuse IDs already used by history rows", async () => {
+      setSourceRows(["20240101120000_create_users.js"]);
+      mockPrisma.$queryRaw = mock(() =>
+        Promise.resolve([{ migration_name: "20240101120000_init" }]),
+      );
+
+      await expect(migrations.importFrom("knex")).rejects.toThrow(
+        "Cannot import: migration ID 20240101120000 is already used",
+      );
+      expect(
+        existsSync(join(testMigrationsDir, "20240101120000_create_users")),
+      ).toBe(false);
+    });
+
+    test("should refuse IDs already used by migrations in other layouts", async () => {
+      mkdirSync(testMigrationsDir, { recursive: true });
+      writeFileSync(
+        join(testMigrationsDir, "20240101120000_init.up.sql"),
+        "SELECT 1;",
+      );
+      setSourceRows(["20240101120000_create_users.js"]);
+
+      await expect(migrations.importFrom("knex")).rejects.toThrow(
+        "Cannot import: migration ID 20240101120000 is already used",
+      );
+    });
+
+    test("should fail when an explicit source directory cannot be read", async () => {
+      setSourceRows([]);
+
+      await expect(
+        migrations.importFrom("knex", {
+          sourceDir: join(sourceDir, "missing"),
+        }),
+      ).rejects.toThrow("ENOENT");
+    });
+
+    test("should remove written directories when history cannot be seeded", async () => {
+      setSourceRows(["20240101120000_create_users.js"]);
+      mockPrisma.$transaction = mock(() =>
+        Promise.reject(new Error("history locked")),
+      );
+
+      await expect(migrations.importFrom("knex")).rejects.toThrow(
+        "history locked",
+      );
+      expect(
+        existsSync(join(testMigrationsDir, "20240101120000_create_users")),
+      ).toBe(false);
+    });
+  });
 });
@@ -0,0 +1,52 @@
+import { describe, expect, mock, test } from "bun:test";
+import {
+  captureSchema,
+  compareSchemas,
+} from "../../../src/migrations/introspection";
+import type { PrismaMigrationClient } from "../../../src/types";
+
+function createClient(rows: Record<string, unknown>[]): PrismaMigrationClient {
+  return {
+    $executeRaw: mock(() => Promise.resolve(0)),
+    $executeRawUnsafe: mock(() => Promise.resolve(0)),
+    $queryRaw: mock(() => Promise.resolve(rows)),
+  } as unknown as PrismaMigrationClient;
+}
+
+describe("captureSchema", () => {
+  test("returns sorted entries without the migration history table", async () => {
+    const client = createClient([
+      { kind: "table", owner: "users", name: "users", definition: "CREATE" },
+      { kind: "index", owner: "posts", name: "posts_idx", definition: null },
+      {
+        kind: "table",
+        owner: "_prisma_migrations",
+        name: "_prisma_migrations",
+        definition: "CREATE",
+      },
+    ]);
+
+    await expect(captureSchema(client, "sqlite")).resolves.toEqual([
+      "index posts.posts_idx: ",
+      "table users.users: CREATE",
+    ]);
+  });
+
+  test("requires a database provider", async () => {
+    await expect(captureSchema(createClient([]), undefined)).rejects.toThrow(
+      'Set the "provider" option',
+    );
+  });
+});
+
+describe("compareSchemas", () => {
+  test("returns no differences for identical snapshots", () => {
+    expect(compareSchemas(["table a"], ["table a"])).toEqual([]);
+  });
+
+  test("reports missing and unexpected entries", () => {
+    expect(
+      compareSchemas(["table a", "table b"], ["table b", "table c"]),
+    ).toEqual(["missing table a", "unexpected table c"]);
+  });
+});
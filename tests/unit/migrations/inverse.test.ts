@@ -0,0 +1,77 @@
+import { describe, expect, test } from "bun:test";
+import { invertMigrationSql } from "../../../src/migrations/inverse";
+
+describe("invertMigrationSql", () => {
+  test("inverts Prisma-generated DDL in reverse order", () => {
+    const sql = `-- CreateEnum
+CREATE TYPE "Role" AS ENUM ('USER', 'ADMIN');
+
+-- CreateTable
+CREATE TABLE "User" (
+    "id" SERIAL NOT NULL,
+    CONSTRAINT "User_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "User_email_key" ON "User"("email");
+`;
+
+    const result = invertMigrationSql(sql);
+
+    expect(result.sql).toBe(`-- Generated rollback; review before running
+
+DROP INDEX IF EXISTS "User_email_key";
+
+DROP TABLE IF EXISTS "User";
+
+DROP TYPE IF EXISTS "Role";
+`);
+    expect(result.irreversible).toEqual([]);
+  });
+
+  test("inverts every action of an ALTER TABLE statement", () => {
+    const sql = `ALTER TABLE "User" ADD COLUMN "name" TEXT DEFAULT 'a,b', ADD CONSTRAINT "User_team_fkey" FOREIGN KEY ("teamId") REFERENCES "Team"("id");`;
+
+    const result = invertMigrationSql(sql);
+
+    expect(result.sql).toContain(
+      'ALTER TABLE "User" DROP CONSTRAINT "User_team_fkey", DROP COLUMN "name";',
+    );
+  });
+
+  test("inverts renames", () => {
+    const sql = `ALTER TABLE users RENAME COLUMN name TO full_name;
+ALTER TABLE users RENAME TO accounts;`;
+
+    const result = invertMigrationSql(sql);
+
+    expect(result.sql).toContain("ALTER TABLE accounts RENAME TO users;");
+    expect(result.sql).toContain(
+      "ALTER TABLE users RENAME COLUMN full_name TO name;",
+    );
+  });
+
+  test("drops indexes by table on MySQL", () => {
+    const sql = "CREATE INDEX `idx_email` ON `users`(`email`);";
+
+    const result = invertMigrationSql(sql, "mysql");
+
+    expect(result.sql).toContain("DROP INDEX `idx_email` ON `users`;");
+  });
+
+  test("marks statements it cannot invert", () => {
+    const sql = `CREATE TABLE posts (id INT);
+UPDATE users SET active = true;
+ALTER TABLE users ALTER COLUMN email SET NOT NULL;`;
+
+    const result = invertMigrationSql(sql);
+
+    expect(result.irreversible).toEqual([
+      "UPDATE users SET active = true",
+      "ALTER TABLE users ALTER COLUMN email SET NOT NULL",
+    ]);
+    expect(result.sql).toContain(
+      "-- TODO: irreversible: UPDATE users SET active = true",
+    );
+  });
+});
@@ -0,0 +1,104 @@
+import { describe, expect, test } from "bun:test";
+import { hasLintErrors, lintMigrationSql } from "../../../src/migrations/lint";
+
+function lintRules(sql: string, provider?: "postgresql" | "mysql"): string[] {
+  const issues = lintMigrationSql("001_test", sql, {}, provider);
+  return issues.map((issue) => issue.rule);
+}
+
+describe("lintMigrationSql", () => {
+  test("flags destructive statements", () => {
+    const sql = `DROP TABLE users;
+ALTER TABLE posts DROP COLUMN title;
+TRUNCATE comments;`;
+
+    expect(lintRules(sql)).toEqual(["drop-table", "drop-column", "truncate"]);
+  });
+
+  test("flags required columns without a default", () => {
+    expect(
+      lintRules('ALTER TABLE "User" ADD COLUMN "name" TEXT NOT NULL;'),
+    ).toEqual(["not-null-without-default"]);
+    expect(
+      lintRules(
+        'ALTER TABLE "User" ADD COLUMN "name" TEXT NOT NULL DEFAULT \'\';',
+      ),
+    ).toEqual([]);
+  });
+
+  test("flags column type changes", () => {
+    expect(
+      lintRules('ALTER TABLE "User" ALTER COLUMN "age" SET DATA TYPE BIGINT;'),
+    ).toEqual(["column-type-change"]);
+    expect(lintRules("ALTER TABLE users MODIFY age BIGINT;")).toEqual([
+      "column-type-change",
+    ]);
+    expect(
+      lintRules('ALTER TABLE "User" ALTER COLUMN "age" SET NOT NULL;'),
+    ).toEqual([]);
+  });
+
+  test("flags non-concurrent indexes on existing PostgreSQL tables", () => {
+    const sql = 'CREATE INDEX "User_email_idx" ON "User"("email");';
+
+    expect(lintRules(sql, "postgresql")).toEqual(["non-concurrent-index"]);
+    expect(lintRules(sql, "mysql")).toEqual([]);
+    expect(
+      lintRules(
+        'CREATE INDEX CONCURRENTLY "User_email_idx" ON "User"("email");',
+        "postgresql",
+      ),
+    ).toEqual([]);
+  });
+
+  test("allows indexes on tables created in the same migration", () => {
+    const sql = `CREATE TABLE "User" ("email" TEXT);
+CREATE UNIQUE INDEX "User_email_key" ON "User"("email");`;
+
+    expect(lintRules(sql, "postgresql")).toEqual([]);
+  });
+
+  test("flags UPDATE and DELETE without WHERE", () => {
+    const sql = `UPDATE users SET active = true;
+DELETE FROM sessions;
+DELETE FROM tokens WHERE expired = true;`;
+
+    expect(lintRules(sql)).toEqual([
+      "update-without-where",
+      "delete-without-where",
+    ]);
+  });
+
+  test("warns on every rule by default", () => {
+    const sql = `DROP TABLE users;
+ALTER TABLE "User" ALTER COLUMN "age" SET DATA TYPE BIGINT;`;
+
+    const issues = lintMigrationSql("001_test", sql);
+
+    expect(issues.map((issue) => [issue.rule, issue.severity])).toEqual([
+      ["drop-table", "warn"],
+      ["column-type-change", "warn"],
+    ]);
+  });
+
+  test("applies configured severities", () => {
+    const sql = "DROP TABLE users;\nTRUNCATE comments;";
+
+    const issues = lintMigrationSql("001_test", sql, {
+      "drop-table": "error",
+      truncate: "off",
+    });
+
+    expect(issues).toEqual([
+      {
+        migration: "001_test",
+        rule: "drop-table",
+        severity: "error",
+        statementNumber: 1,
+        statement: "DROP TABLE users",
+        message: "Dropping a table permanently deletes its data",
+      },
+    ]);
+    expect(hasLintErrors(issues)).toBe(true);
+  });
+});
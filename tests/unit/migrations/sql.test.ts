@@ -0,0 +1,121 @@
+import { describe, expect, test } from "bun:test";
+import {
+  parseDirectives,
+  parseMigrationMetadata,
+  stripDirectives,
+} from "../../../src/migrations/sql";
+
+describe("parseDirectives", () => {
+  test("reads key-value pairs from header comments", () => {
+    const sql = `-- Adds an index without blocking writes
+-- prisma-migrations: transaction=false lock_timeout=5s
+
+CREATE INDEX CONCURRENTLY idx ON users (email);`;
+
+    expect(parseDirectives(sql)).toEqual({
+      transaction: "false",
+      lock_timeout: "5s",
+    });
+  });
+
+  test("treats bare keys as true", () => {
+    const sql = "-- prisma-migrations: transaction\nSELECT 1;";
+
+    expect(parseDirectives(sql)).toEqual({ transaction: "true" });
+  });
+
+  test("stops at the first statement", () => {
+    const sql = "SELECT 1;\n-- prisma-migrations: transaction=false";
+
+    expect(parseDirectives(sql)).toEqual({});
+  });
+
+  test("reads directives from module comments", () => {
+    const source = "// prisma-migrations: environments=test\nexport {};";
+
+    expect(parseDirectives(source)).toEqual({ environments: "test" });
+  });
+});
+
+describe("parseMigrationMetadata", () => {
+  test("defaults to a transactional migration", () => {
+    expect(parseMigrationMetadata("SELECT 1;")).toEqual({
+      transaction: true,
+      statementTimeout: undefined,
+      lockTimeout: undefined,
+      searchPath: undefined,
+      environments: undefined,
+      irreversible: false,
+    });
+  });
+
+  test("converts durations to milliseconds", () => {
+    const sql = `-- prisma-migrations: statement_timeout=2min
+-- prisma-migrations: lock_timeout=500
+SELECT 1;`;
+
+    const metadata = parseMigrationMetadata(sql);
+
+    expect(metadata.statementTimeout).toBe(120000);
+    expect(metadata.lockTimeout).toBe(500);
+  });
+
+  test("splits environment lists", () => {
+    const sql = "-- prisma-migrations: environments=staging,production";
+
+    const metadata = parseMigrationMetadata(sql);
+
+    expect(metadata.environments).toEqual(["staging", "production"]);
+  });
+
+  test("reads the irreversible directive", () => {
+    const sql = "-- prisma-migrations: irreversible\nDROP TABLE sessions;";
+
+    expect(parseMigrationMetadata(sql).irreversible).toBe(true);
+  });
+
+  test("reads the phase directive", () => {
+    const sql =
+      "-- prisma-migrations: phase=post\nALTER TABLE users DROP COLUMN name;";
+
+    expect(parseMigrationMetadata(sql).phase).toBe("post");
+    expect(() =>
+      parseMigrationMetadata("-- prisma-migrations: phase=later"),
+    ).toThrow('Invalid phase directive "later"');
+  });
+
+  test("splits tag lists", () => {
+    const sql = "-- prisma-migrations: tags=analytics,seed\nSELECT 1;";
+
+    expect(parseMigrationMetadata(sql).tags).toEqual(["analytics", "seed"]);
+  });
+
+  test("rejects unknown directives", () => {
+    const sql = "-- prisma-migrations: statment_timeout=5s";
+
+    expect(() => parseMigrationMetadata(sql)).toThrow(
+      'Unknown directive "statment_timeout"',
+    );
+  });
+
+  test("rejects invalid durations", () => {
+    const sql = "-- prisma-migrations: lock_timeout=soon";
+
+    expect(() => parseMigrationMetadata(sql)).toThrow(
+      'Invalid lock_timeout directive "soon"',
+    );
+  });
+});
+
+describe("stripDirectives", () => {
+  test("removes directive comments and keeps other SQL", () => {
+    const sql = `-- prisma-migrations: squashes=001_users
+-- Creates posts
+CREATE TABLE posts (id INT);
+`;
+
+    expect(stripDirectives(sql)).toBe(
+      "-- Creates posts\nCREATE TABLE posts (id INT);",
+    );
+  });
+});
@@ -6,6 +6,7 @@ import {
   validateMigrationName,
   formatMigration,
   generateChecksum,
+  generateStatementsChecksum,
 } from "../../../src/utils";
 import type { MigrationFile } from "../../../src/types";
 
@@ -95,6 +96,17 @@ describe("utils", () => {
 
       expect(formatMigration(migration)).toBe("12345_test_migration");
     });
+
+    test("should format repeatable migrations by id", () => {
+      const migration: MigrationFile = {
+        id: "R__active_users",
+        name: "active_users",
+        path: "/path",
+        kind: "repeatable",
+      };
+
+      expect(formatMigration(migration)).toBe("R__active_users");
+    });
   });
 
   describe("generateChecksum", () => {
@@ -134,4 +146,14 @@ describe("utils", () => {
       await expect(generateChecksum(nonExistentFile)).rejects.toThrow();
     });
   });
+
+  describe("generateStatementsChecksum", () => {
+    test("should depend on statement boundaries", () => {
+      const joined = generateStatementsChecksum(["SELECT 1; SELECT 2"]);
+      const split = generateStatementsChecksum(["SELECT 1;", "SELECT 2"]);
+
+      expect(joined).toMatch(/^[a-f0-9]{64}$/);
+      expect(joined).not.toBe(split);
+    });
+  });
 });